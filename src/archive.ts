@@ -0,0 +1,356 @@
+import { createHash } from "node:crypto";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { createGunzip, createGzip } from "node:zlib";
+import { ZodBucketError } from "./errors";
+import { type RichJsonBody, fromRichJson, toRichJson } from "./serializers";
+
+export type ArchiveFormat = "ndjson" | "tar.gz";
+
+// An object as listed in the manifest
+export type ArchiveEntry = {
+	// Key relative to the bucket prefix
+	key: string;
+	schemaKey: string;
+	// Undefined for plain keys
+	partitions?: unknown;
+	// SHA-256 of the record's `value` and `meta` as JSON, in hex
+	sha256: string;
+};
+
+// Values are stored in the rich JSON encoding, so Dates, BigInts, Maps and
+// Sets survive: `value` is the JSON-safe form and `meta` the paths to
+// restore, when there are any
+export type ArchiveRecord = ArchiveEntry & {
+	type: "object";
+	value: unknown;
+	meta?: RichJsonBody["meta"];
+};
+
+// An object to archive, with its value as read
+export type ArchiveObject = Omit<ArchiveEntry, "sha256"> & { value: unknown };
+
+// Written after every object, so an archive missing it was cut short
+export type ArchiveManifest = {
+	type: "manifest";
+	format: "zod-bucket";
+	version: 1 | 2;
+	createdAt: string;
+	schemaKeys: string[];
+	entries: ArchiveEntry[];
+};
+
+// Version 2 added `meta`; version 1 records are plain JSON without it
+const ARCHIVE_VERSION = 2;
+const GZIP_MAGIC = [0x1f, 0x8b];
+const TAR_BLOCK_SIZE = 512;
+const TAR_MANIFEST_NAME = "manifest.json";
+const LINE_BREAK = /\r?\n/;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+// Hashes the value alone when there is no meta, as version 1 did
+export const getChecksum = ({ json, meta }: RichJsonBody): string =>
+	createHash("sha256")
+		.update(JSON.stringify(meta === undefined ? json : { json, meta }))
+		.digest("hex");
+
+// The record's value with its Dates, BigInts, Maps and Sets restored.
+// Values are restored in place, so the record's JSON is copied first.
+export const getRecordValue = (record: ArchiveRecord): unknown =>
+	record.meta === undefined
+		? record.value
+		: fromRichJson({
+				json: JSON.parse(JSON.stringify(record.value)),
+				meta: record.meta,
+			});
+
+// Writes an octal number into a NUL-terminated tar header field
+const writeOctal = (
+	header: Uint8Array,
+	offset: number,
+	length: number,
+	value: number,
+): void => {
+	header.set(
+		textEncoder.encode(`${value.toString(8).padStart(length - 1, "0")}\0`),
+		offset,
+	);
+};
+
+// A ustar header for a regular file. Names are short, since objects are
+// numbered rather than named by key.
+const createTarHeader = (name: string, size: number): Uint8Array => {
+	const header = new Uint8Array(TAR_BLOCK_SIZE);
+	header.set(textEncoder.encode(name), 0);
+	writeOctal(header, 100, 8, 0o644);
+	writeOctal(header, 108, 8, 0);
+	writeOctal(header, 116, 8, 0);
+	writeOctal(header, 124, 12, size);
+	writeOctal(header, 136, 12, Math.floor(Date.now() / 1000));
+	header[156] = "0".charCodeAt(0);
+	header.set(textEncoder.encode("ustar\u000000"), 257);
+
+	// The checksum is computed with its own field filled with spaces
+	header.fill(0x20, 148, 156);
+	const checksum = header.reduce((sum, byte) => sum + byte, 0);
+	header.set(
+		textEncoder.encode(`${checksum.toString(8).padStart(6, "0")}\0 `),
+		148,
+	);
+	return header;
+};
+
+function* tarFile(name: string, body: Uint8Array): Generator<Uint8Array> {
+	yield createTarHeader(name, body.length);
+	yield body;
+	const padding =
+		(TAR_BLOCK_SIZE - (body.length % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE;
+	if (padding > 0) {
+		yield new Uint8Array(padding);
+	}
+}
+
+/**
+ * Encode objects as an archive, followed by the manifest
+ * NDJSON archives hold one record per line. Tarballs hold each record as
+ * `objects/<n>.json` and the manifest as `manifest.json`, before gzip.
+ */
+export async function* encodeArchive(
+	objects: AsyncIterable<ArchiveObject>,
+	format: ArchiveFormat,
+	schemaKeys: string[],
+): AsyncGenerator<Uint8Array> {
+	const entries: ArchiveEntry[] = [];
+	for await (const object of objects) {
+		const encoded = toRichJson(object.value);
+		const entry: ArchiveEntry = {
+			key: object.key,
+			schemaKey: object.schemaKey,
+			partitions: object.partitions,
+			sha256: getChecksum(encoded),
+		};
+		entries.push(entry);
+
+		const record: ArchiveRecord = {
+			type: "object",
+			...entry,
+			value: encoded.json,
+			meta: encoded.meta,
+		};
+		if (format === "ndjson") {
+			yield textEncoder.encode(`${JSON.stringify(record)}\n`);
+		} else {
+			yield* tarFile(
+				`objects/${String(entries.length).padStart(8, "0")}.json`,
+				textEncoder.encode(JSON.stringify(record)),
+			);
+		}
+	}
+
+	const manifest: ArchiveManifest = {
+		type: "manifest",
+		format: "zod-bucket",
+		version: ARCHIVE_VERSION,
+		createdAt: new Date().toISOString(),
+		schemaKeys,
+		entries,
+	};
+	if (format === "ndjson") {
+		yield textEncoder.encode(`${JSON.stringify(manifest)}\n`);
+		return;
+	}
+	yield* tarFile(
+		TAR_MANIFEST_NAME,
+		textEncoder.encode(JSON.stringify(manifest)),
+	);
+	// Two empty blocks mark the end of a tarball
+	yield new Uint8Array(TAR_BLOCK_SIZE * 2);
+}
+
+/**
+ * Write an archive to a stream, gzipping tarballs
+ * The stream is ended once the manifest is written.
+ */
+export const writeArchive = async (
+	stream: NodeJS.WritableStream,
+	objects: AsyncIterable<ArchiveObject>,
+	format: ArchiveFormat,
+	schemaKeys: string[],
+): Promise<void> => {
+	const source = Readable.from(encodeArchive(objects, format, schemaKeys));
+	if (format === "ndjson") {
+		await pipeline(source, stream);
+	} else {
+		await pipeline(source, createGzip(), stream);
+	}
+};
+
+// Reads exact byte counts from a stream of chunks
+class ChunkReader {
+	private readonly iterator: AsyncIterator<Uint8Array>;
+	private buffered: Uint8Array[] = [];
+	private length = 0;
+
+	constructor(source: AsyncIterable<Uint8Array>) {
+		this.iterator = source[Symbol.asyncIterator]();
+	}
+
+	// Resolves to null when the stream ends before `size` bytes
+	async read(size: number): Promise<Uint8Array | null> {
+		while (this.length < size) {
+			const { done, value } = await this.iterator.next();
+			if (done) {
+				return null;
+			}
+			this.buffered.push(value);
+			this.length += value.length;
+		}
+
+		const joined = concat(this.buffered, this.length);
+		this.buffered = [joined.subarray(size)];
+		this.length -= size;
+		return joined.subarray(0, size);
+	}
+}
+
+const concat = (chunks: Uint8Array[], length: number): Uint8Array => {
+	if (chunks.length === 1) {
+		return chunks[0];
+	}
+	const joined = new Uint8Array(length);
+	let offset = 0;
+	for (const chunk of chunks) {
+		joined.set(chunk, offset);
+		offset += chunk.length;
+	}
+	return joined;
+};
+
+const readTarString = (header: Uint8Array, offset: number, length: number) => {
+	const field = header.subarray(offset, offset + length);
+	const end = field.indexOf(0);
+	return textDecoder.decode(end === -1 ? field : field.subarray(0, end));
+};
+
+const parseItem = (text: string): ArchiveRecord | ArchiveManifest => {
+	const item = JSON.parse(text) as ArchiveRecord | ArchiveManifest;
+	if (item.type !== "object" && item.type !== "manifest") {
+		throw new ZodBucketError("Unrecognized archive item");
+	}
+	return item;
+};
+
+async function* readTar(
+	source: AsyncIterable<Uint8Array>,
+): AsyncGenerator<ArchiveRecord | ArchiveManifest> {
+	const reader = new ChunkReader(source);
+	for (;;) {
+		const header = await reader.read(TAR_BLOCK_SIZE);
+		if (header === null || header.every((byte) => byte === 0)) {
+			return;
+		}
+
+		const size = Number.parseInt(readTarString(header, 124, 12).trim(), 8);
+		if (Number.isNaN(size)) {
+			throw new ZodBucketError("Invalid tar header in archive");
+		}
+		const body = await reader.read(
+			Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE,
+		);
+		if (body === null) {
+			throw new ZodBucketError("Archive is truncated");
+		}
+
+		// Only regular files hold records
+		const type = String.fromCharCode(header[156]);
+		if (type === "0" || type === "\0") {
+			yield parseItem(textDecoder.decode(body.subarray(0, size)));
+		}
+	}
+}
+
+async function* readNdjson(
+	source: AsyncIterable<Uint8Array>,
+): AsyncGenerator<ArchiveRecord | ArchiveManifest> {
+	const decoder = new TextDecoder();
+	let pending = "";
+	for await (const chunk of source) {
+		const lines = (pending + decoder.decode(chunk, { stream: true })).split(
+			LINE_BREAK,
+		);
+		pending = lines.pop() ?? "";
+		for (const line of lines) {
+			if (line.trim() !== "") {
+				yield parseItem(line);
+			}
+		}
+	}
+	pending += decoder.decode();
+	if (pending.trim() !== "") {
+		yield parseItem(pending);
+	}
+}
+
+// Throws unless the manifest lists exactly the records read, in order
+export const checkManifest = (
+	manifest: ArchiveManifest | undefined,
+	records: ArchiveEntry[],
+): void => {
+	if (manifest === undefined) {
+		throw new ZodBucketError("Archive has no manifest; it may be truncated");
+	}
+	if (manifest.format !== "zod-bucket" || manifest.version > ARCHIVE_VERSION) {
+		throw new ZodBucketError(
+			`Unsupported archive: ${manifest.format} version ${manifest.version}`,
+		);
+	}
+
+	const matches =
+		manifest.entries.length === records.length &&
+		manifest.entries.every(
+			(entry, index) =>
+				entry.key === records[index].key &&
+				entry.sha256 === records[index].sha256,
+		);
+	if (!matches) {
+		throw new ZodBucketError("Archive does not match its manifest");
+	}
+};
+
+/**
+ * Read the records and manifest of an archive
+ * Gzipped tarballs are told apart from NDJSON by their first bytes.
+ */
+export async function* readArchive(
+	source: AsyncIterable<Uint8Array>,
+): AsyncGenerator<ArchiveRecord | ArchiveManifest> {
+	const iterator = source[Symbol.asyncIterator]();
+	const first = await iterator.next();
+	if (first.done) {
+		return;
+	}
+
+	// The first chunk was consumed to detect the format
+	const chunks = (async function* () {
+		yield first.value;
+		for (;;) {
+			const { done, value } = await iterator.next();
+			if (done) {
+				return;
+			}
+			yield value;
+		}
+	})();
+
+	if (first.value[0] !== GZIP_MAGIC[0] || first.value[1] !== GZIP_MAGIC[1]) {
+		yield* readNdjson(chunks);
+		return;
+	}
+
+	const gunzip = createGunzip();
+	// Failures also destroy gunzip, which rethrows them while it is read
+	pipeline(Readable.from(chunks), gunzip).catch(() => undefined);
+	yield* readTar(gunzip);
+}
@@ -0,0 +1,63 @@
+import type { StorageObject } from "./storage";
+
+// A stored object and the time until which it is served without asking
+// the backend
+export type CacheEntry = {
+	object: StorageObject;
+	expiresAt: number;
+};
+
+// Where cached objects are kept, keyed by storage key
+export interface Cache {
+	get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+	set(key: string, entry: CacheEntry): void | Promise<void>;
+	delete(key: string): void | Promise<void>;
+}
+
+export type CacheStats = {
+	// Reads answered from the cache, including revalidated entries
+	hits: number;
+	// Reads that downloaded the object
+	misses: number;
+	// Hits confirmed by the backend as unchanged (304 Not Modified)
+	revalidations: number;
+};
+
+// Keeps the most recently used entries in memory
+export class LruCache implements Cache {
+	private readonly maxEntries: number;
+	// Map iteration follows insertion order, so the first key is the least
+	// recently used
+	private readonly entries = new Map<string, CacheEntry>();
+
+	constructor(options: { maxEntries?: number } = {}) {
+		this.maxEntries = options.maxEntries ?? 1000;
+	}
+
+	get(key: string): CacheEntry | undefined {
+		const entry = this.entries.get(key);
+		if (entry !== undefined) {
+			this.entries.delete(key);
+			this.entries.set(key, entry);
+		}
+		return entry;
+	}
+
+	set(key: string, entry: CacheEntry): void {
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+
+		if (this.entries.size > this.maxEntries) {
+			const oldest = this.entries.keys().next().value as string;
+			this.entries.delete(oldest);
+		}
+	}
+
+	delete(key: string): void {
+		this.entries.delete(key);
+	}
+
+	get size(): number {
+		return this.entries.size;
+	}
+}
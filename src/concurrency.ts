@@ -0,0 +1,24 @@
+/**
+ * Map over items with at most `limit` calls in flight
+ * Results keep the order of the input
+ */
+export const mapWithConcurrency = async <I, R>(
+	items: I[],
+	limit: number,
+	fn: (item: I, index: number) => Promise<R>,
+): Promise<R[]> => {
+	const results = new Array<R>(items.length);
+	let next = 0;
+
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await fn(items[index], index);
+		}
+	};
+
+	await Promise.all(
+		Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker),
+	);
+	return results;
+};
@@ -0,0 +1,195 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import { NotConfiguredError, ZodBucketError } from "./errors";
+
+// A 256-bit AES key and the id recorded on objects encrypted with it
+export type EncryptionKey = {
+	id: string;
+	key: Uint8Array;
+};
+
+// Supplies master keys for envelope encryption
+export interface KeyProvider {
+	// The key used to encrypt new writes
+	getCurrentKey(): EncryptionKey | Promise<EncryptionKey>;
+	// Looks up the key recorded on an existing object
+	getKey(id: string): Uint8Array | undefined | Promise<Uint8Array | undefined>;
+}
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// S3 lowercases user metadata keys, so they are written lowercase
+export const ENCRYPTION_METADATA = {
+	algorithm: "encryption",
+	keyId: "encryption-key-id",
+	dataKey: "encryption-data-key",
+	context: "encryption-context",
+};
+
+// Where an object is stored, bound to its ciphertext as additional
+// authenticated data so it cannot be moved to another key or schema key
+export type EncryptionContext = {
+	// The full storage key, including the bucket prefix
+	key: string;
+	schemaKey: string;
+};
+
+// Recorded on objects sealed with their context. Objects written before
+// contexts were bound are opened without one.
+const CONTEXT_FIELDS = "key,schema-key";
+
+const getAad = (context: EncryptionContext): Uint8Array =>
+	new Uint8Array(Buffer.from(JSON.stringify([context.key, context.schemaKey])));
+
+// Accepts raw bytes or a base64 string
+const toKeyBytes = (key: Uint8Array | string): Uint8Array => {
+	const bytes =
+		typeof key === "string" ? new Uint8Array(Buffer.from(key, "base64")) : key;
+	if (bytes.length !== 32) {
+		throw new ZodBucketError("Encryption keys must be 32 bytes (AES-256)");
+	}
+	return bytes;
+};
+
+/**
+ * Use a single master key for every object
+ * @param key - 32 raw bytes or their base64 encoding
+ * @param id - Recorded on each object (default: "default")
+ */
+export const staticKeyProvider = (
+	key: Uint8Array | string,
+	id = "default",
+): KeyProvider => {
+	const current = { id, key: toKeyBytes(key) };
+	return {
+		getCurrentKey: () => current,
+		getKey: (keyId) => (keyId === id ? current.key : undefined),
+	};
+};
+
+/**
+ * Use a set of master keys, encrypting new writes with the current one
+ * Older keys stay available for reading until every object is rotated
+ * @param options - Keys by id, and the id of the key for new writes
+ */
+export const keyRingProvider = (options: {
+	keys: Record<string, Uint8Array | string>;
+	currentKeyId: string;
+}): KeyProvider => {
+	const keys = new Map(
+		Object.entries(options.keys).map(([id, key]) => [id, toKeyBytes(key)]),
+	);
+	const currentKey = keys.get(options.currentKeyId);
+	if (!currentKey) {
+		throw new NotConfiguredError(
+			`Unknown current key id: ${options.currentKeyId}`,
+		);
+	}
+
+	return {
+		getCurrentKey: () => ({ id: options.currentKeyId, key: currentKey }),
+		getKey: (id) => keys.get(id),
+	};
+};
+
+// Output layout: IV, ciphertext, authentication tag
+const seal = (
+	key: Uint8Array,
+	plaintext: Uint8Array,
+	aad?: Uint8Array,
+): Uint8Array => {
+	const iv = randomBytes(IV_LENGTH);
+	const cipher = createCipheriv(ALGORITHM, key, iv);
+	if (aad) {
+		cipher.setAAD(aad);
+	}
+	return new Uint8Array(
+		Buffer.concat([
+			iv,
+			cipher.update(plaintext),
+			cipher.final(),
+			cipher.getAuthTag(),
+		]),
+	);
+};
+
+const open = (
+	key: Uint8Array,
+	sealed: Uint8Array,
+	aad?: Uint8Array,
+): Uint8Array => {
+	const iv = sealed.subarray(0, IV_LENGTH);
+	const tag = sealed.subarray(sealed.length - TAG_LENGTH);
+	const decipher = createDecipheriv(ALGORITHM, key, iv);
+	decipher.setAuthTag(tag);
+	if (aad) {
+		decipher.setAAD(aad);
+	}
+	return new Uint8Array(
+		Buffer.concat([
+			decipher.update(sealed.subarray(IV_LENGTH, sealed.length - TAG_LENGTH)),
+			decipher.final(),
+		]),
+	);
+};
+
+/**
+ * Encrypt a body with a fresh data key, wrapped by the provider's current key
+ * @param context - Where the body is stored; decrypting needs the same one
+ * @returns The encrypted body and the metadata needed to decrypt it
+ */
+export const encryptBody = async (
+	body: Uint8Array,
+	keyProvider: KeyProvider,
+	context: EncryptionContext,
+): Promise<{ body: Uint8Array; metadata: Record<string, string> }> => {
+	const masterKey = await keyProvider.getCurrentKey();
+	const dataKey = randomBytes(32);
+
+	return {
+		body: seal(dataKey, body, getAad(context)),
+		metadata: {
+			[ENCRYPTION_METADATA.context]: CONTEXT_FIELDS,
+			[ENCRYPTION_METADATA.algorithm]: ALGORITHM,
+			[ENCRYPTION_METADATA.keyId]: masterKey.id,
+			[ENCRYPTION_METADATA.dataKey]: Buffer.from(
+				seal(masterKey.key, dataKey),
+			).toString("base64"),
+		},
+	};
+};
+
+/**
+ * Decrypt a body using the key recorded in its metadata
+ * Fails when the body was encrypted for another context.
+ */
+export const decryptBody = async (
+	body: Uint8Array,
+	metadata: Record<string, string>,
+	keyProvider: KeyProvider,
+	context: EncryptionContext,
+): Promise<Uint8Array> => {
+	const keyId = metadata[ENCRYPTION_METADATA.keyId];
+	const masterKey = await keyProvider.getKey(keyId);
+	if (!masterKey) {
+		throw new NotConfiguredError(`Unknown encryption key id: ${keyId}`);
+	}
+
+	const dataKey = open(
+		masterKey,
+		new Uint8Array(
+			Buffer.from(metadata[ENCRYPTION_METADATA.dataKey], "base64"),
+		),
+	);
+	return open(
+		dataKey,
+		body,
+		metadata[ENCRYPTION_METADATA.context] === undefined
+			? undefined
+			: getAad(context),
+	);
+};
+
+export const isEncrypted = (metadata: Record<string, string>): boolean =>
+	metadata[ENCRYPTION_METADATA.algorithm] !== undefined;
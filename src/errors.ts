@@ -0,0 +1,103 @@
+import type { ZodError, ZodIssue } from "zod";
+
+// Base class for every error thrown by ZodBucket
+export class ZodBucketError extends Error {
+	readonly cause?: unknown;
+
+	constructor(message: string, options: { cause?: unknown } = {}) {
+		super(message);
+		this.name = "ZodBucketError";
+		this.cause = options.cause;
+	}
+}
+
+// Thrown when a value does not match its schema, either before it is
+// written or after it is read and migrated
+export class ValidationError extends ZodBucketError {
+	readonly key: string;
+	readonly direction: "read" | "write";
+	readonly issues: ZodIssue[];
+
+	constructor(key: string, direction: "read" | "write", error: ZodError) {
+		super(
+			`Validation failed on ${direction} for key: ${key}\n${error.message}`,
+			{ cause: error },
+		);
+		this.name = "ValidationError";
+		this.key = key;
+		this.direction = direction;
+		this.issues = error.issues;
+	}
+}
+
+// Thrown when a stored object cannot be decrypted or deserialized
+export class CorruptObjectError extends ZodBucketError {
+	readonly key: string;
+
+	constructor(key: string, cause: unknown) {
+		super(`Stored object is corrupt: ${key}`, { cause });
+		this.name = "CorruptObjectError";
+		this.key = key;
+	}
+}
+
+// Thrown when a value cannot be serialized before it is written, e.g. a
+// BigInt given to the JSON serializer
+export class SerializationError extends ZodBucketError {
+	readonly key: string;
+
+	constructor(key: string, cause: unknown) {
+		super(`Failed to serialize value for key: ${key}`, { cause });
+		this.name = "SerializationError";
+		this.key = key;
+	}
+}
+
+// Thrown when an operation needs an option the bucket was not created with
+export class NotConfiguredError extends ZodBucketError {
+	constructor(message: string) {
+		super(message);
+		this.name = "NotConfiguredError";
+	}
+}
+
+// Thrown when a write lock could not be acquired within the retry budget
+export class LockTimeoutError extends ZodBucketError {
+	readonly lockName: string;
+
+	constructor(lockName: string) {
+		super(`Failed to acquire lock: ${lockName}`);
+		this.name = "LockTimeoutError";
+		this.lockName = lockName;
+	}
+}
+
+// Wraps failures from the storage backend, such as network or permission
+// errors
+export class StorageError extends ZodBucketError {
+	readonly operation: string;
+	readonly key?: string;
+
+	constructor(operation: string, key: string | undefined, cause: unknown) {
+		super(
+			`Storage ${operation} failed${key === undefined ? "" : ` for key: ${key}`}: ${
+				cause instanceof Error ? cause.message : String(cause)
+			}`,
+			{ cause },
+		);
+		this.name = "StorageError";
+		this.operation = operation;
+		this.key = key;
+	}
+}
+
+// Thrown when a conditional write fails because the stored object changed
+export class ConflictError extends ZodBucketError {
+	readonly key: string;
+
+	constructor(key: string) {
+		super(`Precondition failed for key: ${key}`);
+		this.name = "ConflictError";
+		this.key = key;
+	}
+}
@@ -0,0 +1,52 @@
+// Globstars with their trailing slash, character classes, wildcards, braces
+// and regular expression characters that need escaping
+const GLOB_TOKEN = /\*\*\/?|\[!?\]?[^\]]*\]|[*?{},]|[.+^$()|[\]\\]/g;
+const GLOB_WILDCARD = /[*?{[]/;
+const CLASS_ESCAPE = /[\\^\]]/g;
+const CLASS_TOKEN = /^\[.+\]$/;
+
+const GLOB_REPLACEMENTS: Record<string, string> = {
+	"**/": "(?:.*/)?",
+	"**": ".*",
+	"*": "[^/]*",
+	"?": "[^/]",
+};
+
+// `[!abc]` negates a class, and a leading `]` is matched literally
+const classToRegExp = (token: string): string => {
+	const negated = token[1] === "!";
+	const members = token
+		.slice(negated ? 2 : 1, -1)
+		.replace(CLASS_ESCAPE, (char) => `\\${char}`);
+	return negated ? `[^/${members}]` : `[${members}]`;
+};
+
+/**
+ * Converts a glob pattern into an anchored regular expression
+ * `*` and `?` stay within a path segment, `**` spans segments and `**` with
+ * its slash also matches no segments at all.
+ */
+export const globToRegExp = (pattern: string): RegExp => {
+	let braceDepth = 0;
+	const source = pattern.replace(GLOB_TOKEN, (token) => {
+		if (CLASS_TOKEN.test(token)) {
+			return classToRegExp(token);
+		}
+		if (token === "{") {
+			braceDepth++;
+			return "(?:";
+		}
+		if (braceDepth > 0 && (token === "}" || token === ",")) {
+			braceDepth -= token === "}" ? 1 : 0;
+			return token === "}" ? ")" : "|";
+		}
+		return GLOB_REPLACEMENTS[token] ?? `\\${token}`;
+	});
+	return new RegExp(`^${source}$`);
+};
+
+// Returns the literal part of a glob pattern before the first wildcard
+export const getGlobBase = (pattern: string): string => {
+	const index = pattern.search(GLOB_WILDCARD);
+	return index === -1 ? pattern : pattern.slice(0, index);
+};
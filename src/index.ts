@@ -1,15 +1,196 @@
-import {
-	DeleteObjectCommand,
-	GetObjectCommand,
-	ListObjectsV2Command,
-	PutObjectCommand,
-	S3Client,
-	type S3ClientConfig,
-} from "@aws-sdk/client-s3";
+import { S3Client, type S3ClientConfig } from "@aws-sdk/client-s3";
 import { Rehiver } from "rehiver";
 import type { S3MutexOptions } from "s3-mutex";
 import { S3Mutex } from "s3-mutex";
-import type { ZodType, z } from "zod";
+import { ZodError, type ZodType, type z } from "zod";
+import {
+	type ArchiveEntry,
+	type ArchiveFormat,
+	type ArchiveManifest,
+	type ArchiveObject,
+	type ArchiveRecord,
+	checkManifest,
+	getChecksum,
+	getRecordValue,
+	readArchive,
+	writeArchive,
+} from "./archive";
+import { type Cache, type CacheStats, LruCache } from "./cache";
+import { mapWithConcurrency } from "./concurrency";
+import {
+	ENCRYPTION_METADATA,
+	type KeyProvider,
+	decryptBody,
+	encryptBody,
+	isEncrypted,
+} from "./encryption";
+import {
+	ConflictError,
+	CorruptObjectError,
+	LockTimeoutError,
+	NotConfiguredError,
+	SerializationError,
+	ValidationError,
+	ZodBucketError,
+} from "./errors";
+import { getGlobBase, globToRegExp } from "./glob";
+import {
+	type IndexField,
+	type IndexRebuildReport,
+	type IndexValue,
+	encodeIndexValue,
+	getIndexPaths,
+	getIndexValues,
+} from "./indexes";
+import { type Mutex, StorageMutex } from "./lock";
+import {
+	AppendLog,
+	type AppendLogOptions,
+	type LogRecord,
+	type StoredLogRecord,
+} from "./log";
+import {
+	type Hooks,
+	type Middleware,
+	type OperationContext,
+	type OperationName,
+	hooksMiddleware,
+	runMiddleware,
+} from "./middleware";
+import { Query } from "./query";
+import { type RetentionPolicy, isPartitionExpired } from "./retention";
+import {
+	type Serializer,
+	createSerializerRegistry,
+	gzip,
+	jsonSerializer,
+	ndjsonSerializer,
+} from "./serializers";
+import {
+	S3Storage,
+	type StorageAdapter,
+	type StorageDeleteFailure,
+	type StorageDeleteOptions,
+	type StorageObject,
+	type StorageObjectHead,
+	type StorageObjectInfo,
+	type StorageObjectVersion,
+	type StoragePutOptions,
+	withStorageErrors,
+} from "./storage";
+import { decodeTime, ulid } from "./ulid";
+import {
+	type WatchHandler,
+	type WatchOptions,
+	type WatchStore,
+	Watcher,
+} from "./watch";
+
+export type {
+	ArchiveEntry,
+	ArchiveFormat,
+	ArchiveManifest,
+	ArchiveRecord,
+} from "./archive";
+export {
+	type EncryptionKey,
+	type KeyProvider,
+	keyRingProvider,
+	staticKeyProvider,
+} from "./encryption";
+export {
+	type Cache,
+	type CacheEntry,
+	type CacheStats,
+	LruCache,
+} from "./cache";
+export {
+	ConflictError,
+	CorruptObjectError,
+	LockTimeoutError,
+	NotConfiguredError,
+	SerializationError,
+	StorageError,
+	ValidationError,
+	ZodBucketError,
+} from "./errors";
+export type {
+	IndexField,
+	IndexRebuildReport,
+	IndexValue,
+} from "./indexes";
+export {
+	AppendLog,
+	type AppendLogOptions,
+	type LogGranularity,
+	type LogRecord,
+	type LogStore,
+	type StoredLogRecord,
+	getTimePartition,
+} from "./log";
+export type {
+	AfterHook,
+	BeforeHook,
+	Hooks,
+	Middleware,
+	OperationContext,
+	OperationName,
+} from "./middleware";
+export {
+	type CleanupStaleLocksOptions,
+	type CleanupStaleLocksResult,
+	type Mutex,
+	StorageMutex,
+	type StorageMutexOptions,
+} from "./lock";
+export {
+	type GroupedQuery,
+	type NumericField,
+	type OrderDirection,
+	Query,
+	type QueryMatch,
+	type QueryRow,
+	type QuerySource,
+} from "./query";
+export type { RetentionPolicy } from "./retention";
+export {
+	type Serializer,
+	brotli,
+	compressed,
+	gzip,
+	jsonSerializer,
+	msgpackSerializer,
+	ndjsonSerializer,
+	richJsonSerializer,
+} from "./serializers";
+export {
+	FileSystemStorage,
+	MemoryStorage,
+	S3Storage,
+	type StorageAdapter,
+	type StorageDeleteFailure,
+	type StorageDeleteOptions,
+	type StorageGetOptions,
+	type StorageListOptions,
+	type StorageListPage,
+	type StorageObject,
+	type StorageObjectHead,
+	type StorageObjectInfo,
+	type StorageObjectVersion,
+	type StoragePutOptions,
+} from "./storage";
+export {
+	type ChangeNotification,
+	type ChangeSource,
+	LocalChangeSource,
+	parseS3EventNotification,
+	type WatchEvent,
+	type WatchEventType,
+	type WatchHandler,
+	type WatchOptions,
+	type WatchStore,
+	Watcher,
+} from "./watch";
 
 export type SchemaMap = Record<string, ZodType>;
 
@@ -18,10 +199,13 @@ export interface ZodBucketConfig<
 	T extends SchemaMap,
 	P extends ZodType = ZodType,
 > {
-	bucket: string;
+	// Required unless a storage backend is given
+	bucket?: string;
 	prefix?: string;
 	s3Client?: S3Client;
 	s3ClientConfig?: S3ClientConfig;
+	// Storage backend (default: S3Storage for `bucket`)
+	storage?: StorageAdapter;
 	schema: T;
 	// Optional partition schema for path validation
 	partitionSchema?: P;
@@ -31,8 +215,283 @@ export interface ZodBucketConfig<
 	mutexOptions?: Partial<Omit<S3MutexOptions, "s3Client" | "bucketName">>;
 	// Whether to enable mutex locking for write operations (default: true)
 	enableMutex?: boolean;
+	// Ordered migrations per schema key; objects are stamped with the number
+	// of migrations that existed when they were written
+	migrations?: { [K in keyof T]?: Migration[] };
+	// Write migrated values back to S3 when they are read (default: false)
+	writeBackMigrations?: boolean;
+	// Serializer for every schema key (default: jsonSerializer)
+	serializer?: Serializer;
+	// Serializers for individual schema keys, overriding `serializer`
+	serializers?: { [K in keyof T]?: Serializer };
+	// Client-side envelope encryption for every schema key, or only the
+	// listed ones
+	encryption?: {
+		keyProvider: KeyProvider;
+		schemaKeys?: Array<keyof T>;
+	};
+	// Move objects that cannot be deserialized or fail validation on read to
+	// `<prefix>/_quarantine/`, so later reads no longer see them
+	// (default: false)
+	quarantine?: boolean;
+	// Cache objects read from storage, in memory by default
+	cache?: boolean | CacheOptions;
+	// Fields to keep secondary indexes for, per schema key. Array fields
+	// followed by "[]" are indexed by each element.
+	indexes?: { [K in keyof T]?: IndexField<z.infer<T[K]>>[] };
+	// Keep revisions of every value under `<prefix>/_history/`, for buckets
+	// without S3 versioning (default: false)
+	history?: boolean | HistoryOptions;
+	// Schema keys whose partitioned objects may be compacted. Reads of other
+	// schema keys never look for segments.
+	compaction?: Array<keyof T>;
+	// How long partitioned objects are kept, per schema key, as enforced by
+	// applyRetention
+	retention?: { [K in keyof T]?: RetentionPolicy<z.infer<P>> };
+	// Run around every get, set and delete, plain or partitioned, in order
+	middleware?: Middleware<SchemaInfer<T>, z.infer<P>>[];
+	// Hooks for single operations, run before any middleware
+	hooks?: Hooks<SchemaInfer<T>, z.infer<P>>;
+}
+
+export interface HistoryOptions {
+	// Revisions kept per key, including the current one (default: 10)
+	maxRevisions?: number;
+}
+
+export interface CacheOptions {
+	// Where entries are kept (default: an LruCache)
+	store?: Cache;
+	// Size of the default LruCache (default: 1000)
+	maxEntries?: number;
+	// How long an entry is served without asking the backend. Older entries
+	// are revalidated with their ETag. (default: 0, always revalidate)
+	ttl?: number;
+}
+
+// Upgrades a stored value by one schema version
+export type Migration = (value: unknown) => unknown;
+
+export type MigrationReport = {
+	scanned: number;
+	migrated: number;
+	failed: Array<{ key: string; error: unknown }>;
+};
+
+export type TransactionRecoveryReport = {
+	// Transaction ids, by how they were finished
+	rolledForward: string[];
+	rolledBack: string[];
+	discarded: string[];
+	failed: Array<{ id: string; error: unknown }>;
+};
+
+export type ReencryptionReport = {
+	scanned: number;
+	reencrypted: number;
+	failed: Array<{ key: string; error: unknown }>;
+};
+
+export interface ExportOptions<T extends SchemaMap, P extends ZodType> {
+	// Export only the partitioned values matching these partitions
+	partialPartitions?: Partial<z.infer<P>>;
+	// Export only these schema keys (default: every schema key)
+	schemaKeys?: Array<keyof T>;
+	// NDJSON, or a gzipped tarball (default: "ndjson")
+	format?: ArchiveFormat;
 }
 
+export type ExportReport = {
+	exported: number;
+	// Objects left out because they could not be read or failed validation
+	failed: Array<{ key: string; error: unknown }>;
+};
+
+export interface ImportOptions {
+	// What to do when a key already exists (default: "fail", which throws a
+	// ConflictError)
+	mode?: "skip" | "overwrite" | "fail";
+	// Read and check the whole archive before writing anything, holding it
+	// in memory (default: false)
+	validate?: boolean;
+}
+
+export type ImportReport = {
+	imported: number;
+	skipped: number;
+	failed: Array<{ key: string; error: unknown }>;
+};
+
+export type SweepReport = {
+	scanned: number;
+	expired: number;
+	// Zero for a dry run
+	deleted: number;
+	failed: Array<{ key: string; error: unknown }>;
+};
+
+// S3 lowercases user metadata keys, so they are written lowercase
+const SCHEMA_VERSION_METADATA = "schema-version";
+const SERIALIZER_METADATA = "serializer";
+// When a value written with a ttl expires, as an ISO date. Kept when the
+// object is rewritten by a migration.
+const EXPIRES_METADATA = "expires-at";
+
+// Metadata that is always recomputed when an object is rewritten
+const MANAGED_METADATA = new Set([
+	"schemakey",
+	...Object.values(ENCRYPTION_METADATA),
+]);
+
+const DEFAULT_BATCH_CONCURRENCY = 10;
+
+const QUARANTINE_PREFIX = "_quarantine/";
+const LOG_PREFIX = "_log/";
+const SEGMENT_PREFIX = "_segments/";
+const INDEX_PREFIX = "_index/";
+const TRANSACTION_PREFIX = "_transactions/";
+const HISTORY_PREFIX = "_history/";
+const DEFAULT_MAX_REVISIONS = 10;
+// Journals are `<id>.json` and staged copies `<id>/<n>.before|after`
+const TRANSACTION_ID_END = /[./]/;
+// Transactions younger than this may still be running
+const DEFAULT_RECOVERY_AGE = 60_000;
+const SEGMENT_INDEX_SUFFIX = ".index.json";
+// Decoded segments kept in memory; segments are never rewritten
+const SEGMENT_CACHE_SIZE = 10;
+
+// Recorded on quarantined objects, next to their original metadata
+const QUARANTINE_METADATA = {
+	source: "quarantine-source",
+	error: "quarantine-error",
+	reason: "quarantine-reason",
+	at: "quarantined-at",
+};
+
+// Failures caused by the stored object rather than by the caller
+const isReadFailure = (
+	error: unknown,
+): error is ValidationError | CorruptObjectError =>
+	(error instanceof ValidationError && error.direction === "read") ||
+	error instanceof CorruptObjectError;
+
+// Undoes a failed transaction and returns the error to throw. That is
+// always the error that caused the rollback; if undoing fails too, the
+// failure is recorded on it as `rollbackError`.
+const rollBackAfter = async (
+	error: unknown,
+	rollBack: () => Promise<void>,
+): Promise<unknown> => {
+	try {
+		await rollBack();
+	} catch (rollbackError) {
+		if (error instanceof Error) {
+			Object.assign(error, { rollbackError });
+		}
+	}
+	return error;
+};
+
+// Metadata values must be plain ASCII, so the reason is URI-encoded
+const describeReadFailure = (
+	error: ValidationError | CorruptObjectError,
+): string => {
+	const reason =
+		error instanceof ValidationError
+			? error.issues
+					.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+					.join("; ")
+			: String(
+					error.cause instanceof Error ? error.cause.message : error.cause,
+				);
+	return encodeURIComponent(reason.slice(0, 500));
+};
+
+const isExpired = (
+	metadata: Record<string, string>,
+	now = Date.now(),
+): boolean => {
+	const expiresAt = metadata[EXPIRES_METADATA];
+	return expiresAt !== undefined && Date.parse(expiresAt) <= now;
+};
+
+const getExpiry = (metadata: Record<string, string>): Date | undefined => {
+	const expiresAt = metadata[EXPIRES_METADATA];
+	return expiresAt === undefined ? undefined : new Date(expiresAt);
+};
+
+const toBatchFailure = (error: unknown): BatchFailure =>
+	error instanceof ValidationError
+		? { status: "invalid", error }
+		: { status: "error", error };
+
+// Decoded object contents before validation
+type StoredValue = ZodBucketEntry<unknown> & {
+	metadata: Record<string, string>;
+};
+
+// A line of a compacted segment
+type SegmentLine = { key: string; partitions: unknown; value: unknown };
+
+// Written next to each segment, so compacted keys can be found without
+// downloading it
+type SegmentIndex = {
+	// The segment's name, relative to the index
+	segment: string;
+	entries: Array<{ key: string; partitions: unknown; line: number }>;
+};
+
+type LoadedSegmentIndex = { s3Key: string; etag?: string; index: SegmentIndex };
+
+// Where a compacted value is stored: the segment's S3 key and the line
+type SegmentLocation = { segment: string; line: number };
+
+// The context middleware sees, before it is narrowed by schema key
+type InterceptedOperation<T extends SchemaMap, P extends ZodType> = {
+	operation: OperationName;
+	schemaKey: keyof T;
+	key: string;
+	partitions: z.infer<P> | undefined;
+	value: unknown;
+};
+
+// Where an archived value is restored to; plain values have no path
+type ImportTarget<T extends SchemaMap> = {
+	schemaKey: keyof T;
+	path?: string;
+	value: unknown;
+};
+
+// A write collected by a transaction
+type TransactionOperation<T extends SchemaMap, P extends ZodType> = {
+	type: "set" | "delete";
+	s3Key: string;
+	schemaKey: keyof T;
+	partitioned: boolean;
+	partitions?: z.infer<P>;
+	value?: unknown;
+	metadata?: Record<string, string>;
+};
+
+// Stored at `<prefix>/_transactions/<id>.json` while a transaction writes.
+// Operation `n` keeps the object it replaces at `<id>/<n>.before` and,
+// for sets, the value it writes at `<id>/<n>.after`.
+type TransactionJournal = {
+	id: string;
+	// "preparing" while copies are staged, "applying" while keys are
+	// written and "rolling-back" while they are restored
+	state: "preparing" | "applying" | "rolling-back";
+	operations: Array<{
+		type: "set" | "delete";
+		key: string;
+		schemaKey: string;
+		partitioned: boolean;
+	}>;
+};
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
 export type SchemaInfer<T extends SchemaMap> = {
 	[K in keyof T]: z.infer<T[K]>;
 };
@@ -43,34 +502,274 @@ export type PartitionedKey<P extends ZodType> = {
 	partitions: z.infer<P>;
 };
 
+export type DeleteWhereReport<T extends SchemaMap, P extends ZodType> = {
+	// With dryRun, the objects that would have been deleted
+	deleted: Array<PartitionedKey<P> & { schemaKey: keyof T }>;
+	failed: Array<{ key: string; error: unknown }>;
+};
+
+export type RetentionReport<
+	T extends SchemaMap,
+	P extends ZodType,
+> = DeleteWhereReport<T, P> & {
+	// Paths of the partitions that held expired objects
+	partitions: string[];
+};
+
+export interface CompactOptions {
+	// Gzip the segment (default: true)
+	gzip?: boolean;
+	// Report what would be compacted without writing or deleting anything
+	dryRun?: boolean;
+}
+
+export type CompactionReport<T extends SchemaMap, P extends ZodType> = {
+	// The segment written, relative to the prefix; unset when nothing was
+	// compacted
+	segment?: string;
+	compacted: Array<PartitionedKey<P> & { schemaKey: keyof T }>;
+	// Originals rewritten during compaction, kept because they are newer
+	// than the segment
+	skipped: string[];
+	// Objects that could not be read, or originals that could not be deleted
+	failed: Array<{ key: string; error: unknown }>;
+};
+
+// Conditional write options, checked by S3 instead of taking the mutex
+export interface SetOptions {
+	// Only write if the stored object still has this ETag
+	ifMatch?: string;
+	// Only write if no object exists yet
+	ifNoneMatch?: "*";
+	// Milliseconds until the value expires and reads return null
+	ttl?: number;
+}
+
+export interface GetOptions {
+	// Return the value together with its ETag and version
+	withETag?: boolean;
+	// Read an older version, as listed by `history`
+	versionId?: string;
+}
+
+export interface UpdateOptions {
+	// Use ETag compare-and-set instead of holding the mutex
+	// (always used when mutex is disabled)
+	optimistic?: boolean;
+	// Number of times to retry after a conflicting write (default: 3)
+	retries?: number;
+	// Milliseconds until the updated value expires; by default the current
+	// expiry is kept
+	ttl?: number;
+}
+
+// Receives the current value (or null) and returns the next one
+export type UpdateFunction<V> = (current: V | null) => V | Promise<V>;
+
+export interface BatchOptions {
+	// Maximum number of requests in flight (default: 10)
+	concurrency?: number;
+}
+
+// A schema key, or a schema key under a partitioned path
+export type BatchKey<T extends SchemaMap> =
+	| keyof T
+	| { key: keyof T; path?: string };
+
+export type BatchSetItem<T extends SchemaMap> = {
+	[K in keyof T]: { key: K; value: z.infer<T[K]>; path?: string };
+}[keyof T];
+
+export type BatchFailure =
+	| { status: "not_found" }
+	| { status: "invalid"; error: ValidationError }
+	| { status: "error"; error: unknown };
+
+// The outcome for one item of a batch, in the order the items were given
+export type BatchResult<V = undefined> = {
+	key: string;
+	path?: string;
+} & ({ status: "success"; value: V } | BatchFailure);
+
+// The outcome of a read that reports bad stored objects instead of throwing
+export type SafeResult<V> =
+	| { success: true; data: V | null }
+	| { success: false; error: ValidationError | CorruptObjectError };
+
+// A stored value together with the object's ETag and version
+export type ZodBucketEntry<V> = {
+	value: V;
+	etag?: string;
+	versionId?: string;
+	// Unset for values written without a ttl
+	expiresAt?: Date;
+};
+
+// An object's details, read without downloading its body
+export type ObjectStat = {
+	key: string;
+	size: number;
+	lastModified?: Date;
+	etag?: string;
+	contentType?: string;
+	// The schema key the object was written with
+	schemaKey?: string;
+	// The partition values recorded by `setPartitioned`
+	partitions?: Record<string, unknown>;
+	metadata: Record<string, string>;
+};
+
+// An object found under the bucket prefix, keyed relative to the prefix
+export type ListedObject = {
+	key: string;
+	lastModified?: Date;
+	size?: number;
+};
+
+export interface ListPageOptions {
+	// Maximum number of objects to request per page (S3 caps this at 1000)
+	pageSize?: number;
+	// Start listing after this key (relative to the prefix)
+	startAfter?: string;
+	// Cursor returned by a previous page
+	cursor?: string;
+}
+
+export type ListPage = {
+	items: ListedObject[];
+	// Present when more objects are available
+	cursor?: string;
+};
+
+export type ZodBucketDocumentInfo = {
+	id: string;
+	lastModified?: Date;
+	size?: number;
+};
+
+// A set of documents stored under a single schema key
+export interface ZodBucketCollection<V> {
+	set(id: string, value: V): Promise<void>;
+	get(id: string): Promise<V | null>;
+	delete(id: string): Promise<boolean>;
+	exists(id: string): Promise<boolean>;
+	list(): Promise<ZodBucketDocumentInfo[]>;
+	iterate(): AsyncGenerator<ZodBucketDocumentInfo>;
+}
+
+// Collects writes to apply together; values are validated as they are added
+export interface Transaction<T extends SchemaMap> {
+	set<K extends keyof T>(key: K, value: z.infer<T[K]>): void;
+	delete<K extends keyof T>(key: K): void;
+	setPartitioned<K extends keyof T>(
+		path: string,
+		schemaKey: K,
+		value: z.infer<T[K]>,
+	): void;
+}
+
 export class ZodBucket<T extends SchemaMap, P extends ZodType = ZodType> {
-	private readonly bucket: string;
 	private readonly prefix: string;
-	private readonly s3Client: S3Client;
+	private readonly backend: StorageAdapter;
+	// The backend with its failures wrapped in StorageErrors
+	private readonly storage: StorageAdapter;
 	private readonly schema: T;
 	private readonly partitionSchema?: P;
 	private readonly rehiver: Rehiver;
 	private readonly partitionParser?: ReturnType<Rehiver["partitionParser"]>;
-	private readonly mutex?: S3Mutex;
+	private readonly mutex?: S3Mutex | StorageMutex;
 	private readonly enableMutex: boolean;
+	private readonly lockPrefix: string;
+	private readonly migrations: { [K in keyof T]?: Migration[] };
+	private readonly writeBackMigrations: boolean;
+	private readonly serializer: Serializer;
+	private readonly serializers: { [K in keyof T]?: Serializer };
+	private readonly findSerializer: (name?: string) => Serializer | undefined;
+	private readonly encryption?: ZodBucketConfig<T, P>["encryption"];
+	private readonly quarantine: boolean;
+	private readonly indexes: { [K in keyof T]?: string[] };
+	// Revisions kept per key when history is enabled
+	private readonly maxRevisions?: number;
+	private readonly middleware: Middleware<SchemaInfer<T>, z.infer<P>>[];
+	private readonly compaction: Array<keyof T>;
+	private readonly retention: {
+		[K in keyof T]?: RetentionPolicy<z.infer<P>>;
+	};
+	private readonly cache?: { store: Cache; ttl: number };
+	private readonly cacheStats: CacheStats = {
+		hits: 0,
+		misses: 0,
+		revalidations: 0,
+	};
+	// Segment indexes by key, revalidated with their ETag on each lookup
+	private readonly segmentIndexes = new Map<
+		string,
+		{ etag?: string; index: SegmentIndex }
+	>();
+	// Decoded segments by key, least recently used first
+	private readonly segments = new Map<string, Promise<StoredValue | null>>();
 
 	constructor(config: ZodBucketConfig<T, P>) {
-		this.bucket = config.bucket;
 		this.prefix = config.prefix || "";
-		this.s3Client =
+		const s3Client =
 			config.s3Client ||
 			new S3Client({
 				forcePathStyle: true,
 				...config.s3ClientConfig,
 			});
+		if (!(config.storage || config.bucket)) {
+			throw new NotConfiguredError(
+				"Either bucket or storage must be configured",
+			);
+		}
+		this.backend =
+			config.storage ??
+			new S3Storage({ client: s3Client, bucket: config.bucket as string });
+		this.storage = withStorageErrors(this.backend);
 		this.schema = config.schema;
 		this.partitionSchema = config.partitionSchema;
 		this.enableMutex = config.enableMutex !== false; // Default to true
+		this.migrations = config.migrations ?? {};
+		this.writeBackMigrations = config.writeBackMigrations === true;
+		this.serializer = config.serializer ?? jsonSerializer;
+		this.serializers = config.serializers ?? {};
+		this.encryption = config.encryption;
+		this.quarantine = config.quarantine === true;
+		this.indexes = config.indexes ?? {};
+		this.compaction = config.compaction ?? [];
+		this.retention = config.retention ?? {};
+		this.middleware = [
+			...(config.hooks ? [hooksMiddleware(config.hooks)] : []),
+			...(config.middleware ?? []),
+		];
+		if (config.history) {
+			const historyOptions = config.history === true ? {} : config.history;
+			this.maxRevisions = historyOptions.maxRevisions ?? DEFAULT_MAX_REVISIONS;
+		}
+		if (config.cache) {
+			const cacheOptions = config.cache === true ? {} : config.cache;
+			this.cache = {
+				store:
+					cacheOptions.store ??
+					new LruCache({ maxEntries: cacheOptions.maxEntries }),
+				ttl: cacheOptions.ttl ?? 0,
+			};
+		}
+		this.findSerializer = createSerializerRegistry([
+			this.serializer,
+			...Object.values(this.serializers).filter(
+				(serializer): serializer is Serializer => serializer !== undefined,
+			),
+		]);
+		this.lockPrefix =
+			config.mutexOptions?.keyPrefix ??
+			`${this.prefix ? `${this.prefix}/` : ""}locks/`;
 
 		// Initialize rehiver with custom options or defaults
 		this.rehiver = new Rehiver({
 			s3Options: {
-				client: this.s3Client,
+				client:
+					this.backend instanceof S3Storage ? this.backend.client : s3Client,
 			},
 			...config.rehiverOptions,
 		});
@@ -80,14 +779,21 @@ export class ZodBucket<T extends SchemaMap, P extends ZodType = ZodType> {
 			this.partitionParser = this.rehiver.partitionParser(this.partitionSchema);
 		}
 
-		// Initialize mutex if enabled
+		// Initialize mutex if enabled; other backends lock through their own
+		// conditional writes
 		if (this.enableMutex) {
-			this.mutex = new S3Mutex({
-				s3Client: this.s3Client,
-				bucketName: this.bucket,
-				keyPrefix: `${this.prefix ? `${this.prefix}/` : ""}locks/`,
-				...config.mutexOptions,
-			});
+			this.mutex =
+				this.backend instanceof S3Storage
+					? new S3Mutex({
+							s3Client: this.backend.client,
+							bucketName: this.backend.bucket,
+							...config.mutexOptions,
+							keyPrefix: this.lockPrefix,
+						})
+					: new StorageMutex(this.storage, {
+							...config.mutexOptions,
+							keyPrefix: this.lockPrefix,
+						});
 		}
 	}
 
@@ -104,379 +810,3665 @@ export class ZodBucket<T extends SchemaMap, P extends ZodType = ZodType> {
 			: s3Key;
 	}
 
-	// Original simple key-based methods (unchanged for backward compatibility)
-	async set<K extends keyof T>(key: K, value: z.infer<T[K]>): Promise<void> {
-		const schemaForKey = this.schema[key];
-		if (!schemaForKey) {
-			throw new Error(`No schema defined for key: ${String(key)}`);
+	// Prefix used when listing, so sibling prefixes are not included
+	private getListPrefix(): string | undefined {
+		return this.prefix ? `${this.prefix}/` : undefined;
+	}
+
+	// Lock objects written by the mutex, quarantined objects, append logs,
+	// compacted segments, index pointers, transaction journals and revisions
+	// are not listed as part of the data set
+	private isInternalKey(s3Key: string): boolean {
+		return (
+			s3Key.startsWith(this.lockPrefix) ||
+			s3Key.startsWith(this.getS3Key(QUARANTINE_PREFIX)) ||
+			s3Key.startsWith(this.getS3Key(LOG_PREFIX)) ||
+			s3Key.startsWith(this.getS3Key(SEGMENT_PREFIX)) ||
+			s3Key.startsWith(this.getS3Key(INDEX_PREFIX)) ||
+			s3Key.startsWith(this.getS3Key(TRANSACTION_PREFIX)) ||
+			s3Key.startsWith(this.getS3Key(HISTORY_PREFIX))
+		);
+	}
+
+	private async listObjectsPage(
+		prefix: string | undefined,
+		options: { pageSize?: number; startAfter?: string; cursor?: string } = {},
+	): Promise<{ contents: StorageObjectInfo[]; cursor?: string }> {
+		const page = await this.storage.list(prefix, options);
+
+		return {
+			contents: page.items.filter((item) => !this.isInternalKey(item.key)),
+			cursor: page.cursor,
+		};
+	}
+
+	// Follows continuation tokens until every object under the prefix is listed
+	private async *listObjects(
+		prefix: string | undefined,
+		pageSize?: number,
+	): AsyncGenerator<StorageObjectInfo> {
+		let cursor: string | undefined;
+		do {
+			const page = await this.listObjectsPage(prefix, { pageSize, cursor });
+			yield* page.contents;
+			cursor = page.cursor;
+		} while (cursor);
+	}
+
+	// Yields the S3 keys matching a glob pattern
+	private async *findMatchingKeys(pattern: string): AsyncGenerator<string> {
+		const matcher = globToRegExp(pattern);
+		for await (const item of this.listObjects(getGlobBase(pattern))) {
+			if (matcher.test(item.key)) {
+				yield item.key;
+			}
 		}
+	}
 
-		// Validate the value against the schema
-		const validatedValue = schemaForKey.parse(value);
+	private async *iterateCollection(
+		collectionPrefix: string,
+	): AsyncGenerator<ZodBucketDocumentInfo> {
+		for await (const item of this.listObjects(collectionPrefix)) {
+			const fileName = item.key.slice(collectionPrefix.length);
+			if (fileName.endsWith(".json") && !fileName.includes("/")) {
+				yield {
+					id: fileName.slice(0, -".json".length),
+					lastModified: item.lastModified,
+					size: item.size,
+				};
+			}
+		}
+	}
 
-		const s3Key = this.getS3Key(String(key));
-		const lockName = `set-${s3Key}`;
-
-		// Use mutex if enabled, otherwise write directly
-		if (this.enableMutex && this.mutex) {
-			await this.mutex.withLock(lockName, async () => {
-				const command = new PutObjectCommand({
-					Bucket: this.bucket,
-					Key: s3Key,
-					Body: JSON.stringify(validatedValue),
-					ContentType: "application/json",
-				});
+	private getSchemaVersion(schemaKey: keyof T): number {
+		return this.migrations[schemaKey]?.length ?? 0;
+	}
 
-				await this.s3Client.send(command);
-			});
-		} else {
-			const command = new PutObjectCommand({
-				Bucket: this.bucket,
-				Key: s3Key,
-				Body: JSON.stringify(validatedValue),
-				ContentType: "application/json",
-			});
+	private getSerializer(schemaKey: keyof T): Serializer {
+		return this.serializers[schemaKey] ?? this.serializer;
+	}
 
-			await this.s3Client.send(command);
+	private shouldEncrypt(schemaKey: keyof T): boolean {
+		if (!this.encryption) {
+			return false;
 		}
+		return (
+			this.encryption.schemaKeys === undefined ||
+			this.encryption.schemaKeys.includes(schemaKey)
+		);
 	}
 
-	async get<K extends keyof T>(key: K): Promise<z.infer<T[K]> | null> {
-		const schemaForKey = this.schema[key];
-		if (!schemaForKey) {
-			throw new Error(`No schema defined for key: ${String(key)}`);
+	// `s3Key` is the key the body was encrypted for, which revisions share
+	// with the value they were copied from
+	private async decrypt(
+		s3Key: string,
+		body: Uint8Array,
+		metadata: Record<string, string>,
+	): Promise<Uint8Array> {
+		if (!this.encryption) {
+			throw new NotConfiguredError(
+				"Object is encrypted but no encryption key provider is configured",
+			);
 		}
+		return await decryptBody(body, metadata, this.encryption.keyProvider, {
+			key: s3Key,
+			schemaKey: metadata.schemakey,
+		});
+	}
 
-		const s3Key = this.getS3Key(String(key));
+	// Every object records its schema key, schema version and serializer.
+	// Metadata read back from S3 has lowercase keys, which are dropped here
+	// so a rewrite does not send the same header twice.
+	private getObjectMetadata(
+		schemaKey: keyof T,
+		metadata: Record<string, string> = {},
+		serializer = this.getSerializer(schemaKey),
+	): Record<string, string> {
+		return {
+			...Object.fromEntries(
+				Object.entries(metadata).filter(
+					([name]) => !MANAGED_METADATA.has(name.toLowerCase()),
+				),
+			),
+			schemaKey: String(schemaKey),
+			[SCHEMA_VERSION_METADATA]: String(this.getSchemaVersion(schemaKey)),
+			[SERIALIZER_METADATA]: serializer.name,
+		};
+	}
 
-		try {
-			const command = new GetObjectCommand({
-				Bucket: this.bucket,
-				Key: s3Key,
-			});
+	// Store partition info in metadata for easier querying
+	private getPartitionMetadata(partitions: z.infer<P>): Record<string, string> {
+		return { partitions: JSON.stringify(partitions) };
+	}
 
-			const response = await this.s3Client.send(command);
+	// Runs the migrations the stored value has not seen yet, in order.
+	// Objects without a version predate versioning and start at zero.
+	private migrateValue(
+		schemaKey: keyof T,
+		stored: StoredValue,
+	): { value: unknown; migrated: boolean } {
+		const migrations = this.migrations[schemaKey] ?? [];
+		const version = Number(stored.metadata[SCHEMA_VERSION_METADATA] ?? 0);
 
-			if (!response.Body) {
-				return null;
-			}
+		let value = stored.value;
+		for (const migration of migrations.slice(version)) {
+			value = migration(value);
+		}
+
+		return { value, migrated: version < migrations.length };
+	}
+
+	// Maps a key relative to the prefix to the schema key of the object
+	// stored there: a plain key, a collection document or a partitioned object
+	private resolveSchemaKey(key: string): keyof T | undefined {
+		if (key in this.schema) {
+			return key;
+		}
+		if (!key.endsWith(".json")) {
+			return undefined;
+		}
+
+		const segments = key.slice(0, -".json".length).split("/");
+		if (segments.length === 2 && segments[0] in this.schema) {
+			return segments[0];
+		}
+
+		const fileName = segments.pop() as string;
+		return segments.length > 0 && fileName in this.schema
+			? fileName
+			: undefined;
+	}
+
+	private getSchema<K extends keyof T>(key: K): T[K] {
+		const schemaForKey = this.schema[key];
+		if (!schemaForKey) {
+			throw new NotConfiguredError(`No schema defined for key: ${String(key)}`);
+		}
+		return schemaForKey;
+	}
+
+	private requirePartitionParser(): ReturnType<Rehiver["partitionParser"]> {
+		if (!(this.partitionParser && this.partitionSchema)) {
+			throw new NotConfiguredError("Partition schema not configured");
+		}
+		return this.partitionParser;
+	}
 
-			const bodyContent = await response.Body.transformToString();
-			const rawValue = JSON.parse(bodyContent);
+	// Validates a value against its schema key's schema
+	private validate<K extends keyof T>(
+		key: string,
+		schemaKey: K,
+		value: unknown,
+		direction: "read" | "write",
+	): z.infer<T[K]> {
+		const result = this.getSchema(schemaKey).safeParse(value);
+		if (!result.success) {
+			throw new ValidationError(key, direction, result.error);
+		}
+		return result.data;
+	}
 
-			// Validate the retrieved value against the schema
-			return schemaForKey.parse(rawValue);
+	// Validates a partitioned path against the partition schema
+	private parsePartitions(
+		path: string,
+		direction: "read" | "write",
+	): z.infer<P> {
+		const partitionParser = this.requirePartitionParser();
+		try {
+			return partitionParser.parse(path);
 		} catch (error) {
-			if (error instanceof Error && error.name === "NoSuchKey") {
-				return null;
-			}
-			if (typeof error === "object" && error !== null && "$metadata" in error) {
-				const awsError = error as { $metadata?: { httpStatusCode?: number } };
-				if (awsError.$metadata?.httpStatusCode === 404) {
-					return null;
-				}
+			if (error instanceof ZodError) {
+				throw new ValidationError(path, direction, error);
 			}
-			throw error;
+			throw new ZodBucketError(`Invalid partition path: ${path}`, {
+				cause: error,
+			});
 		}
 	}
 
-	async delete<K extends keyof T>(key: K): Promise<boolean> {
-		const s3Key = this.getS3Key(String(key));
-		const lockName = `delete-${s3Key}`;
+	// Runs the operation under the named lock when mutex is enabled
+	private async withLock<R>(
+		lockName: string,
+		fn: () => Promise<R>,
+	): Promise<R> {
+		if (!(this.enableMutex && this.mutex)) {
+			return await fn();
+		}
 
-		// First check if the object exists
-		const exists = await this.exists(key);
-		if (!exists) {
-			return false;
+		// Wrapped so a null result from fn is not mistaken for a lock timeout
+		const mutex: Mutex = this.mutex;
+		const result = await mutex.withLock(lockName, async () => ({
+			value: await fn(),
+		}));
+		if (result === null) {
+			throw new LockTimeoutError(lockName);
 		}
+		return result.value;
+	}
 
-		// Use mutex if enabled, otherwise delete directly
-		if (this.enableMutex && this.mutex) {
-			const result = await this.mutex.withLock(lockName, async () => {
-				try {
-					const command = new DeleteObjectCommand({
-						Bucket: this.bucket,
-						Key: s3Key,
-					});
+	// Serializes (and encrypts) with the schema key's settings and returns
+	// the new ETag
+	private async putValue(
+		s3Key: string,
+		schemaKey: keyof T,
+		value: unknown,
+		metadata?: Record<string, string>,
+		options: SetOptions & { serializer?: Serializer } = {},
+	): Promise<string | undefined> {
+		const serializer = options.serializer ?? this.getSerializer(schemaKey);
+		let body: Uint8Array;
+		try {
+			body = await serializer.serialize(value);
+		} catch (error) {
+			throw new SerializationError(this.extractKeyFromS3Key(s3Key), error);
+		}
+		let objectMetadata = this.getObjectMetadata(
+			schemaKey,
+			metadata,
+			serializer,
+		);
 
-					await this.s3Client.send(command);
-					return true;
-				} catch (error) {
-					if (error instanceof Error && error.name === "NoSuchKey") {
-						return false;
-					}
-					if (
-						typeof error === "object" &&
-						error !== null &&
-						"$metadata" in error
-					) {
-						const awsError = error as {
-							$metadata?: { httpStatusCode?: number };
-						};
-						if (awsError.$metadata?.httpStatusCode === 404) {
-							return false;
-						}
-					}
-					throw error;
-				}
+		// Ciphertext is opaque, so the serializer's content headers no longer apply
+		const encrypt = this.encryption && this.shouldEncrypt(schemaKey);
+		if (encrypt) {
+			const encrypted = await encryptBody(body, this.encryption.keyProvider, {
+				key: s3Key,
+				schemaKey: String(schemaKey),
 			});
-			return result ?? false;
+			body = encrypted.body;
+			objectMetadata = { ...objectMetadata, ...encrypted.metadata };
 		}
 
+		const putOptions: StoragePutOptions = {
+			contentType: encrypt
+				? "application/octet-stream"
+				: serializer.contentType,
+			contentEncoding: encrypt ? undefined : serializer.contentEncoding,
+			metadata: objectMetadata,
+		};
+
 		try {
-			const command = new DeleteObjectCommand({
-				Bucket: this.bucket,
-				Key: s3Key,
+			const { etag } = await this.storage.put(s3Key, body, {
+				...putOptions,
+				ifMatch: options.ifMatch,
+				ifNoneMatch: options.ifNoneMatch,
 			});
-
-			await this.s3Client.send(command);
-			return true;
-		} catch (error) {
-			if (error instanceof Error && error.name === "NoSuchKey") {
-				return false;
+			if (this.maxRevisions !== undefined && !this.isInternalKey(s3Key)) {
+				await this.recordRevision(s3Key, body, putOptions);
 			}
-			if (typeof error === "object" && error !== null && "$metadata" in error) {
-				const awsError = error as { $metadata?: { httpStatusCode?: number } };
-				if (awsError.$metadata?.httpStatusCode === 404) {
-					return false;
-				}
+			return etag;
+		} catch (error) {
+			// Reported relative to the prefix, like every other key
+			if (error instanceof ConflictError) {
+				throw new ConflictError(this.extractKeyFromS3Key(s3Key));
 			}
 			throw error;
+		} finally {
+			await this.invalidate(s3Key);
 		}
 	}
 
-	async list(): Promise<
-		Array<{
-			key: keyof T;
-			lastModified?: Date;
-			size?: number;
-		}>
-	> {
-		const command = new ListObjectsV2Command({
-			Bucket: this.bucket,
-			Prefix: this.prefix || undefined,
-		});
+	// Conditional writes are checked by the storage backend, so they skip the
+	// mutex
+	private async writeValue(
+		s3Key: string,
+		lockName: string,
+		schemaKey: keyof T,
+		value: unknown,
+		metadata?: Record<string, string>,
+		options: SetOptions = {},
+	): Promise<void> {
+		const objectMetadata = this.withExpiry(metadata, options.ttl);
+		if (options.ifMatch !== undefined || options.ifNoneMatch !== undefined) {
+			await this.putIndexed(s3Key, schemaKey, value, objectMetadata, options);
+			return;
+		}
 
-		const response = await this.s3Client.send(command);
+		await this.withLock(lockName, () =>
+			this.putIndexed(s3Key, schemaKey, value, objectMetadata),
+		);
+	}
 
-		if (!response.Contents) {
-			return [];
+	// Writes without a ttl leave out the expiry, so they never expire
+	private withExpiry(
+		metadata: Record<string, string> | undefined,
+		ttl: number | undefined,
+	): Record<string, string> | undefined {
+		if (ttl === undefined) {
+			return metadata;
 		}
-
-		return response.Contents.filter((item) => item.Key !== undefined)
-			.map((item) => {
-				const extractedKey = this.extractKeyFromS3Key(item.Key || "");
-				return {
-					key: extractedKey as keyof T,
-					lastModified: item.LastModified,
-					size: item.Size,
-				};
-			})
-			.filter((item) => item.key in this.schema); // Only return keys that exist in our schema
+		if (!(Number.isFinite(ttl) && ttl > 0)) {
+			throw new ZodBucketError(`Invalid ttl: ${ttl}`);
+		}
+		return {
+			...metadata,
+			[EXPIRES_METADATA]: new Date(Date.now() + ttl).toISOString(),
+		};
 	}
 
-	async exists<K extends keyof T>(key: K): Promise<boolean> {
-		const result = await this.get(key);
-		return result !== null;
+	// Reads, migrates and validates a stored value, quarantining it when it
+	// cannot be read
+	private async readEntry<K extends keyof T>(
+		s3Key: string,
+		schemaKey: K,
+		writeBack = this.writeBackMigrations,
+	): Promise<ZodBucketEntry<z.infer<T[K]>> | null> {
+		try {
+			return await this.readValidEntry(s3Key, schemaKey, writeBack);
+		} catch (error) {
+			if (this.quarantine && isReadFailure(error)) {
+				await this.quarantineObject(s3Key, error);
+			}
+			throw error;
+		}
 	}
 
-	// Get all values for keys that exist in S3
-	async getAll(): Promise<Partial<SchemaInfer<T>>> {
-		const keys = await this.list();
-		const result: Partial<SchemaInfer<T>> = {};
+	// Copies the object's bytes to the quarantine area with the reason in its
+	// metadata, then deletes the original unless it was rewritten meanwhile
+	private async quarantineObject(
+		s3Key: string,
+		error: ValidationError | CorruptObjectError,
+	): Promise<void> {
+		const object = await this.storage.get(s3Key);
+		if (object === null) {
+			return;
+		}
 
-		await Promise.all(
-			keys.map(async ({ key }) => {
-				const value = await this.get(key);
-				if (value !== null) {
-					(result as Record<string, unknown>)[key as string] = value;
-				}
-			}),
+		const key = this.extractKeyFromS3Key(s3Key);
+		await this.storage.put(
+			this.getS3Key(`${QUARANTINE_PREFIX}${key}`),
+			object.body,
+			{
+				contentType: object.contentType,
+				contentEncoding: object.contentEncoding,
+				metadata: {
+					...object.metadata,
+					[QUARANTINE_METADATA.source]: key,
+					[QUARANTINE_METADATA.error]: error.name,
+					[QUARANTINE_METADATA.reason]: describeReadFailure(error),
+					[QUARANTINE_METADATA.at]: new Date().toISOString(),
+				},
+			},
 		);
 
-		return result;
+		try {
+			await this.storage.delete(s3Key, { ifMatch: object.etag });
+		} catch (deleteError) {
+			if (!(deleteError instanceof ConflictError)) {
+				throw deleteError;
+			}
+		} finally {
+			await this.invalidate(s3Key);
+		}
 	}
 
-	// NEW: Enhanced methods with partition support
-
-	/**
-	 * Set a value using a partitioned path
-	 * @param path - The partitioned path (e.g., "year=2023/month=12/day=01")
+	// Reports bad stored objects as a failed result instead of throwing
+	private async safely<V>(
+		read: () => Promise<V | null>,
+	): Promise<SafeResult<V>> {
+		try {
+			return { success: true, data: await read() };
+		} catch (error) {
+			if (isReadFailure(error)) {
+				return { success: false, error };
+			}
+			throw error;
+		}
+	}
+
+	private async readValidEntry<K extends keyof T>(
+		s3Key: string,
+		schemaKey: K,
+		writeBack: boolean,
+	): Promise<ZodBucketEntry<z.infer<T[K]>> | null> {
+		// Expired objects are left for sweepExpired to delete
+		const stored = await this.getStored(s3Key);
+		if (stored === null || isExpired(stored.metadata)) {
+			return null;
+		}
+
+		const { value, migrated } = this.migrateValue(schemaKey, stored);
+
+		// Validate the retrieved value against the schema
+		const validatedValue = this.validate(
+			this.extractKeyFromS3Key(s3Key),
+			schemaKey,
+			value,
+			"read",
+		);
+
+		let etag = stored.etag;
+		if (migrated && writeBack) {
+			etag = await this.writeBackMigrated(
+				s3Key,
+				schemaKey,
+				validatedValue,
+				stored,
+			);
+		}
+
+		return {
+			value: validatedValue,
+			etag,
+			versionId: stored.versionId,
+			expiresAt: getExpiry(stored.metadata),
+		};
+	}
+
+	// Conditional on the ETag that was read, so a concurrent write is never
+	// overwritten with a migrated copy of older data
+	private async writeBackMigrated(
+		s3Key: string,
+		schemaKey: keyof T,
+		value: unknown,
+		stored: StoredValue,
+	): Promise<string | undefined> {
+		try {
+			return await this.putIndexed(
+				s3Key,
+				schemaKey,
+				value,
+				stored.metadata,
+				{ ifMatch: stored.etag },
+				stored.value,
+			);
+		} catch (error) {
+			if (error instanceof ConflictError) {
+				return stored.etag;
+			}
+			throw error;
+		}
+	}
+
+	// Reads, transforms, validates and writes a value in one step, either
+	// holding the write lock throughout or retrying on ETag conflicts
+	private async updateValue<K extends keyof T>(
+		s3Key: string,
+		lockName: string,
+		schemaKey: K,
+		fn: UpdateFunction<z.infer<T[K]>>,
+		partitions?: z.infer<P>,
+		options: UpdateOptions = {},
+	): Promise<z.infer<T[K]>> {
+		const read = () =>
+			partitions === undefined
+				? this.readEntry(s3Key, schemaKey, false)
+				: this.readPartitionedEntry(s3Key, schemaKey, false);
+		// The new value goes through the middleware like a set
+		const apply = async (
+			current: ZodBucketEntry<z.infer<T[K]>> | null,
+			setOptions?: SetOptions,
+		): Promise<{ value: z.infer<T[K]> }> => {
+			const { context } = await this.intercept(
+				"set",
+				schemaKey,
+				s3Key,
+				partitions,
+				await fn(current?.value ?? null),
+				async (operation) => {
+					operation.value = this.validate(
+						operation.key,
+						schemaKey,
+						operation.value,
+						"write",
+					);
+					await this.putIndexed(
+						s3Key,
+						schemaKey,
+						operation.value,
+						this.getUpdateMetadata(current, partitions, options.ttl),
+						setOptions,
+						current?.value ?? null,
+					);
+				},
+			);
+			return { value: context.value as z.infer<T[K]> };
+		};
+
+		if (this.isMutexEnabled() && !options.optimistic) {
+			const result = await this.withLock(lockName, async () =>
+				apply(await read()),
+			);
+			return result.value;
+		}
+
+		const retries = options.retries ?? 3;
+
+		for (let attempt = 0; ; attempt++) {
+			const current = await read();
+
+			try {
+				const result = await apply(
+					current,
+					current?.etag
+						? { ifMatch: current.etag }
+						: await this.getCreateCondition(s3Key),
+				);
+				return result.value;
+			} catch (error) {
+				if (!(error instanceof ConflictError) || attempt >= retries) {
+					throw error;
+				}
+			}
+		}
+	}
+
+	// Updates keep the current expiry unless given a ttl of their own
+	private getUpdateMetadata(
+		current: ZodBucketEntry<unknown> | null,
+		partitions: z.infer<P> | undefined,
+		ttl: number | undefined,
+	): Record<string, string> | undefined {
+		const metadata =
+			partitions === undefined
+				? undefined
+				: this.getPartitionMetadata(partitions);
+		if (ttl !== undefined || current?.expiresAt === undefined) {
+			return this.withExpiry(metadata, ttl);
+		}
+		return {
+			...metadata,
+			[EXPIRES_METADATA]: current.expiresAt.toISOString(),
+		};
+	}
+
+	// The condition for an optimistic update of a value that reads as null.
+	// Expired objects are still stored, so they are replaced by ETag; values
+	// that are missing or only compacted are written as new objects.
+	private async getCreateCondition(s3Key: string): Promise<SetOptions> {
+		const head = await this.headObject(s3Key);
+		return head === null ? { ifNoneMatch: "*" } : { ifMatch: head.etag };
+	}
+
+	// Returns the decoded body, or null when the object does not exist.
+	// Older versions are read past the cache. Copies, such as revisions,
+	// pass the key their bytes were encrypted for.
+	private async getStored(
+		s3Key: string,
+		versionId?: string,
+		encryptedFor = s3Key,
+	): Promise<StoredValue | null> {
+		const object =
+			versionId === undefined
+				? await this.readObject(s3Key)
+				: await this.storage.get(s3Key, { versionId });
+		if (object === null) {
+			return null;
+		}
+
+		const metadata = object.metadata;
+		const serializerName = metadata[SERIALIZER_METADATA];
+		const serializer = this.findSerializer(serializerName);
+		if (!serializer) {
+			throw new NotConfiguredError(`Unknown serializer: ${serializerName}`);
+		}
+
+		return {
+			value: await this.decode(
+				s3Key,
+				object.body,
+				metadata,
+				serializer,
+				encryptedFor,
+			),
+			etag: object.etag,
+			versionId: object.versionId,
+			metadata,
+		};
+	}
+
+	// Decrypts and deserializes a body; anything but a configuration error
+	// means the stored bytes are damaged
+	private async decode(
+		s3Key: string,
+		body: Uint8Array,
+		metadata: Record<string, string>,
+		serializer: Serializer,
+		encryptedFor = s3Key,
+	): Promise<unknown> {
+		try {
+			const plaintext = isEncrypted(metadata)
+				? await this.decrypt(encryptedFor, body, metadata)
+				: body;
+			return await serializer.deserialize(plaintext);
+		} catch (error) {
+			if (error instanceof ZodBucketError) {
+				throw error;
+			}
+			throw new CorruptObjectError(this.extractKeyFromS3Key(s3Key), error);
+		}
+	}
+
+	private async deleteObject(
+		s3Key: string,
+		options?: StorageDeleteOptions,
+	): Promise<boolean> {
+		try {
+			await this.storage.delete(s3Key, options);
+		} catch (error) {
+			// Reported relative to the prefix, like every other key
+			if (error instanceof ConflictError) {
+				throw new ConflictError(this.extractKeyFromS3Key(s3Key));
+			}
+			throw error;
+		} finally {
+			await this.invalidate(s3Key);
+		}
+		return true;
+	}
+
+	// Reads an object through the cache when one is configured. Fresh
+	// entries are served as is; older ones cost a request that only returns
+	// the body when the ETag changed.
+	private async readObject(s3Key: string): Promise<StorageObject | null> {
+		if (!this.cache) {
+			return await this.storage.get(s3Key);
+		}
+
+		const cached = await this.cache.store.get(s3Key);
+		if (cached && cached.expiresAt > Date.now()) {
+			this.cacheStats.hits++;
+			return cached.object;
+		}
+
+		const object = await this.storage.get(s3Key, {
+			ifNoneMatch: cached?.object.etag,
+		});
+		const expiresAt = Date.now() + this.cache.ttl;
+
+		if (cached && object?.notModified) {
+			this.cacheStats.hits++;
+			this.cacheStats.revalidations++;
+			await this.cache.store.set(s3Key, { ...cached, expiresAt });
+			return cached.object;
+		}
+
+		this.cacheStats.misses++;
+		if (object === null) {
+			await this.cache.store.delete(s3Key);
+		} else {
+			await this.cache.store.set(s3Key, { object, expiresAt });
+		}
+		return object;
+	}
+
+	// Backends without `head` fall back to downloading the object
+	private async headObject(s3Key: string): Promise<StorageObjectHead | null> {
+		if (this.storage.head) {
+			return await this.storage.head(s3Key);
+		}
+
+		const object = await this.readObject(s3Key);
+		if (object === null) {
+			return null;
+		}
+		const { body, notModified: _, ...details } = object;
+		return { ...details, size: body.length };
+	}
+
+	private async statObject(s3Key: string): Promise<ObjectStat | null> {
+		const head = await this.headObject(s3Key);
+		if (head === null) {
+			return null;
+		}
+
+		const { partitions, schemakey } = head.metadata;
+		let parsedPartitions: Record<string, unknown> | undefined;
+		try {
+			parsedPartitions = partitions ? JSON.parse(partitions) : undefined;
+		} catch {
+			parsedPartitions = undefined;
+		}
+
+		return {
+			key: this.extractKeyFromS3Key(s3Key),
+			size: head.size,
+			lastModified: head.lastModified,
+			etag: head.etag,
+			contentType: head.contentType,
+			schemaKey: schemakey,
+			partitions: parsedPartitions,
+			metadata: head.metadata,
+		};
+	}
+
+	private async invalidate(s3Key: string): Promise<void> {
+		await this.cache?.store.delete(s3Key);
+	}
+
+	// Deletes in batches when the backend supports it and returns the keys,
+	// relative to the prefix, that could not be deleted
+	private async deleteObjects(
+		s3Keys: string[],
+	): Promise<Array<{ key: string; error: unknown }>> {
+		let failures: StorageDeleteFailure[] = [];
+		if (this.storage.deleteMany) {
+			failures = await this.storage.deleteMany(s3Keys);
+		} else {
+			for (const s3Key of s3Keys) {
+				try {
+					await this.storage.delete(s3Key);
+				} catch (error) {
+					failures.push({ key: s3Key, error });
+				}
+			}
+		}
+
+		await Promise.all(s3Keys.map((s3Key) => this.invalidate(s3Key)));
+
+		return failures.map(({ key, error }) => ({
+			key: this.extractKeyFromS3Key(key),
+			error,
+		}));
+	}
+
+	private getIndexFields(schemaKey: keyof T): string[] {
+		return this.indexes[schemaKey] ?? [];
+	}
+
+	private getIndexBase(schemaKey: keyof T): string {
+		return this.getS3Key(`${INDEX_PREFIX}${String(schemaKey)}/`);
+	}
+
+	// Pointers are empty objects keyed
+	// `<base><field>/<encoded value>/<encoded key>`, so a lookup is a listing
+	private getPointerKeys(
+		schemaKey: keyof T,
+		s3Key: string,
+		value: unknown,
+	): string[] {
+		const base = this.getIndexBase(schemaKey);
+		const key = encodeURIComponent(this.extractKeyFromS3Key(s3Key));
+		return getIndexPaths(value, this.getIndexFields(schemaKey)).map(
+			(path) => `${base}${path}${key}`,
+		);
+	}
+
+	// Writes the pointers only the next value has and deletes those only the
+	// previous value had
+	private async moveIndexPointers(
+		schemaKey: keyof T,
+		s3Key: string,
+		previous: unknown,
+		next: unknown,
+	): Promise<void> {
+		const previousPointers = this.getPointerKeys(schemaKey, s3Key, previous);
+		const nextPointers = this.getPointerKeys(schemaKey, s3Key, next);
+
+		await mapWithConcurrency(
+			nextPointers.filter((pointer) => !previousPointers.includes(pointer)),
+			DEFAULT_BATCH_CONCURRENCY,
+			(pointer) => this.storage.put(pointer, new Uint8Array()),
+		);
+		const stale = previousPointers.filter(
+			(pointer) => !nextPointers.includes(pointer),
+		);
+		if (stale.length > 0) {
+			await this.deleteObjects(stale);
+		}
+	}
+
+	// The stored value whose pointers a write or delete replaces. Objects
+	// that cannot be decoded have none to remove.
+	private async readIndexedValue(s3Key: string): Promise<unknown> {
+		try {
+			return (await this.getStored(s3Key))?.value ?? null;
+		} catch (error) {
+			if (isReadFailure(error)) {
+				return null;
+			}
+			throw error;
+		}
+	}
+
+	// Writes a value and moves its index pointers. Callers that already read
+	// the stored value pass it as `previous`.
+	private async putIndexed(
+		s3Key: string,
+		schemaKey: keyof T,
+		value: unknown,
+		metadata?: Record<string, string>,
+		options: SetOptions = {},
+		previous?: unknown,
+	): Promise<string | undefined> {
+		if (this.getIndexFields(schemaKey).length === 0) {
+			return await this.putValue(s3Key, schemaKey, value, metadata, options);
+		}
+
+		const stored =
+			previous === undefined ? await this.readIndexedValue(s3Key) : previous;
+		const etag = await this.putValue(
+			s3Key,
+			schemaKey,
+			value,
+			metadata,
+			options,
+		);
+		await this.moveIndexPointers(schemaKey, s3Key, stored, value);
+		return etag;
+	}
+
+	private async deleteIndexed(
+		s3Key: string,
+		schemaKey: keyof T,
+		options?: StorageDeleteOptions,
+	): Promise<boolean> {
+		const previous =
+			this.getIndexFields(schemaKey).length > 0
+				? await this.readIndexedValue(s3Key)
+				: null;
+		await this.deleteObject(s3Key, options);
+		await this.moveIndexPointers(schemaKey, s3Key, previous, null);
+		return true;
+	}
+
+	// Deletes like deleteObjects, then the pointers of the deleted values
+	private async deleteIndexedObjects(
+		items: Array<{ s3Key: string; schemaKey: keyof T }>,
+		concurrency = DEFAULT_BATCH_CONCURRENCY,
+	): Promise<Array<{ key: string; error: unknown }>> {
+		const previous = await mapWithConcurrency(
+			items,
+			concurrency,
+			async ({ s3Key, schemaKey }) =>
+				this.getIndexFields(schemaKey).length > 0
+					? await this.readIndexedValue(s3Key)
+					: null,
+		);
+
+		const failures = await this.deleteObjects(items.map(({ s3Key }) => s3Key));
+		const failedKeys = new Set(failures.map(({ key }) => key));
+
+		await mapWithConcurrency(items, concurrency, async (item, index) => {
+			if (!failedKeys.has(this.extractKeyFromS3Key(item.s3Key))) {
+				await this.moveIndexPointers(
+					item.schemaKey,
+					item.s3Key,
+					previous[index],
+					null,
+				);
+			}
+		});
+		return failures;
+	}
+
+	/**
+	 * Add middleware to run around every get, set and delete, after the
+	 * middleware added before it
+	 * @param middleware - Calls `next` to run the operation, or returns
+	 * without calling it to skip the operation
+	 */
+	use(middleware: Middleware<SchemaInfer<T>, z.infer<P>>): this {
+		this.middleware.push(middleware);
+		return this;
+	}
+
+	// Runs an operation through the middleware. The operation reads its
+	// input from the context, which middleware may have changed.
+	private async intercept<R>(
+		name: OperationName,
+		schemaKey: keyof T,
+		s3Key: string,
+		partitions: z.infer<P> | undefined,
+		value: unknown,
+		operation: (context: InterceptedOperation<T, P>) => Promise<R>,
+	): Promise<{ context: InterceptedOperation<T, P>; result?: R }> {
+		const context: InterceptedOperation<T, P> = {
+			operation: name,
+			schemaKey,
+			key: this.extractKeyFromS3Key(s3Key),
+			partitions,
+			value,
+		};
+		const result = await runMiddleware(
+			this.middleware,
+			context as OperationContext<SchemaInfer<T>, z.infer<P>>,
+			() => operation(context),
+		);
+		return { context, result };
+	}
+
+	// Validates and writes the value the middleware lets through
+	private async interceptWrite(
+		s3Key: string,
+		lockName: string,
+		schemaKey: keyof T,
+		value: unknown,
+		partitions?: z.infer<P>,
+		options?: SetOptions,
+	): Promise<void> {
+		await this.intercept(
+			"set",
+			schemaKey,
+			s3Key,
+			partitions,
+			value,
+			async (context) => {
+				// Validate the value against the schema
+				context.value = this.validate(
+					context.key,
+					schemaKey,
+					context.value,
+					"write",
+				);
+				await this.writeValue(
+					s3Key,
+					lockName,
+					schemaKey,
+					context.value,
+					partitions === undefined
+						? undefined
+						: this.getPartitionMetadata(partitions),
+					options,
+				);
+			},
+		);
+	}
+
+	// Reads a value; middleware sees what was read and may replace it
+	private async interceptRead<K extends keyof T>(
+		s3Key: string,
+		schemaKey: K,
+		partitions: z.infer<P> | undefined,
+		read: () => Promise<ZodBucketEntry<z.infer<T[K]>> | null>,
+	): Promise<ZodBucketEntry<z.infer<T[K]>> | null> {
+		const { context, result } = await this.intercept(
+			"get",
+			schemaKey,
+			s3Key,
+			partitions,
+			null,
+			async (operation) => {
+				const entry = await read();
+				operation.value = entry?.value ?? null;
+				return entry;
+			},
+		);
+		return context.value === null
+			? null
+			: { ...result, value: context.value as z.infer<T[K]> };
+	}
+
+	// Resolves to false when middleware skipped the delete
+	private async interceptDelete(
+		s3Key: string,
+		schemaKey: keyof T,
+		partitions: z.infer<P> | undefined,
+		remove: () => Promise<boolean>,
+	): Promise<boolean> {
+		const { result } = await this.intercept(
+			"delete",
+			schemaKey,
+			s3Key,
+			partitions,
+			null,
+			remove,
+		);
+		return result ?? false;
+	}
+
+	// Deletes in batches when there is no middleware. Otherwise each object
+	// goes through it on its own, so hooks can skip single objects, and the
+	// keys they skipped are returned with the failures.
+	private async interceptDeletes(
+		items: Array<{
+			s3Key: string;
+			schemaKey: keyof T;
+			partitions?: z.infer<P>;
+		}>,
+		concurrency = DEFAULT_BATCH_CONCURRENCY,
+	): Promise<{
+		failed: Array<{ key: string; error: unknown }>;
+		skipped: Set<string>;
+	}> {
+		const skipped = new Set<string>();
+		if (this.middleware.length === 0) {
+			return {
+				failed: await this.deleteIndexedObjects(items, concurrency),
+				skipped,
+			};
+		}
+
+		const failed: Array<{ key: string; error: unknown }> = [];
+		await mapWithConcurrency(
+			items,
+			concurrency,
+			async ({ s3Key, schemaKey, partitions }) => {
+				const key = this.extractKeyFromS3Key(s3Key);
+				try {
+					const deleted = await this.interceptDelete(
+						s3Key,
+						schemaKey,
+						partitions,
+						() => this.deleteIndexed(s3Key, schemaKey),
+					);
+					if (!deleted) {
+						skipped.add(key);
+					}
+				} catch (error) {
+					failed.push({ key, error });
+				}
+			},
+		);
+		return { failed, skipped };
+	}
+
+	// Original simple key-based methods (unchanged for backward compatibility)
+	async set<K extends keyof T>(
+		key: K,
+		value: z.infer<T[K]>,
+		options?: SetOptions,
+	): Promise<void> {
+		this.getSchema(key);
+		const s3Key = this.getS3Key(String(key));
+
+		await this.interceptWrite(
+			s3Key,
+			`set-${s3Key}`,
+			key,
+			value,
+			undefined,
+			options,
+		);
+	}
+
+	get<K extends keyof T>(key: K): Promise<z.infer<T[K]> | null>;
+	get<K extends keyof T>(
+		key: K,
+		options: GetOptions & { withETag: true },
+	): Promise<ZodBucketEntry<z.infer<T[K]>> | null>;
+	get<K extends keyof T>(
+		key: K,
+		options?: GetOptions,
+	): Promise<z.infer<T[K]> | ZodBucketEntry<z.infer<T[K]>> | null>;
+	async get<K extends keyof T>(
+		key: K,
+		options: GetOptions = {},
+	): Promise<z.infer<T[K]> | ZodBucketEntry<z.infer<T[K]>> | null> {
+		// Fail fast for unknown keys before touching S3
+		this.getSchema(key);
+
+		const s3Key = this.getS3Key(String(key));
+		const entry = await this.interceptRead(s3Key, key, undefined, () =>
+			options.versionId === undefined
+				? this.readEntry(s3Key, key)
+				: this.readVersion(s3Key, key, options.versionId),
+		);
+		if (entry === null) {
+			return null;
+		}
+
+		return options.withETag ? entry : entry.value;
+	}
+
+	/**
+	 * Apply a read-modify-write update to a value
+	 * When mutex is enabled the write lock is held across the read, update,
+	 * validation and write. Otherwise (or with `optimistic: true`) the write
+	 * uses ETag compare-and-set and the update function runs again with the
+	 * fresh value after a conflict.
+	 * @param key - The schema key to update
+	 * @param fn - Receives the current value (or null) and returns the next one
+	 * @param options - Concurrency strategy, number of retries and a new ttl
+	 */
+	async update<K extends keyof T>(
+		key: K,
+		fn: UpdateFunction<z.infer<T[K]>>,
+		options?: UpdateOptions,
+	): Promise<z.infer<T[K]>> {
+		this.getSchema(key);
+		const s3Key = this.getS3Key(String(key));
+
+		return await this.updateValue(
+			s3Key,
+			`set-${s3Key}`,
+			key,
+			fn,
+			undefined,
+			options,
+		);
+	}
+
+	/**
+	 * Shallow-merge a partial value into the stored value
+	 * The merged value must still satisfy the schema
+	 * @param key - The schema key to patch
+	 * @param partial - Fields to overwrite
+	 * @param options - Concurrency strategy, number of retries and a new ttl
+	 */
+	async patch<K extends keyof T>(
+		key: K,
+		partial: Partial<z.infer<T[K]>>,
+		options?: UpdateOptions,
+	): Promise<z.infer<T[K]>> {
+		return await this.update(
+			key,
+			(current) => ({ ...current, ...partial }) as z.infer<T[K]>,
+			options,
+		);
+	}
+
+	async delete<K extends keyof T>(key: K): Promise<boolean> {
+		const s3Key = this.getS3Key(String(key));
+
+		return await this.interceptDelete(s3Key, key, undefined, async () => {
+			// First check if the object exists
+			const exists = await this.exists(key);
+			if (!exists) {
+				return false;
+			}
+
+			return await this.withLock(`delete-${s3Key}`, () =>
+				this.deleteIndexed(s3Key, key),
+			);
+		});
+	}
+
+	async list(): Promise<
+		Array<{
+			key: keyof T;
+			lastModified?: Date;
+			size?: number;
+		}>
+	> {
+		const items: Array<{
+			key: keyof T;
+			lastModified?: Date;
+			size?: number;
+		}> = [];
+
+		for await (const item of this.iterate()) {
+			// Only return keys that exist in our schema
+			if (item.key in this.schema) {
+				items.push({ ...item, key: item.key as keyof T });
+			}
+		}
+
+		return items;
+	}
+
+	/**
+	 * List a single page of objects under the prefix
+	 * Pass the returned cursor back in to fetch the next page
+	 * @param options - Page size, start key and cursor
+	 */
+	async listPages(options: ListPageOptions = {}): Promise<ListPage> {
+		const page = await this.listObjectsPage(this.getListPrefix(), {
+			pageSize: options.pageSize,
+			startAfter:
+				options.startAfter === undefined
+					? undefined
+					: this.getS3Key(options.startAfter),
+			cursor: options.cursor,
+		});
+
+		return {
+			items: page.contents.map((item) => ({
+				key: this.extractKeyFromS3Key(item.key),
+				lastModified: item.lastModified,
+				size: item.size,
+			})),
+			cursor: page.cursor,
+		};
+	}
+
+	/**
+	 * Iterate over every object under the prefix, one page at a time
+	 * @param options - Page size and start key
+	 */
+	async *iterate(
+		options: Omit<ListPageOptions, "cursor"> = {},
+	): AsyncGenerator<ListedObject> {
+		let cursor: string | undefined;
+		do {
+			const page = await this.listPages({ ...options, cursor });
+			yield* page.items;
+			cursor = page.cursor;
+		} while (cursor);
+	}
+
+	// Checks for the object without downloading or validating it
+	async exists<K extends keyof T>(key: K): Promise<boolean> {
+		this.getSchema(key);
+		const head = await this.headObject(this.getS3Key(String(key)));
+		return head !== null && !isExpired(head.metadata);
+	}
+
+	/**
+	 * Get an object's size, ETag and metadata without downloading it
+	 * @param key - The schema key to look up
+	 * @returns The object's details, or null when it does not exist
+	 */
+	async stat<K extends keyof T>(key: K): Promise<ObjectStat | null> {
+		this.getSchema(key);
+		return await this.statObject(this.getS3Key(String(key)));
+	}
+
+	private getRevisionBase(s3Key: string): string {
+		return this.getS3Key(
+			`${HISTORY_PREFIX}${this.extractKeyFromS3Key(s3Key)}/`,
+		);
+	}
+
+	// Oldest first, since revisions are named by ULIDs. Revisions of longer
+	// keys under the same base are skipped.
+	private async listRevisions(s3Key: string): Promise<StorageObjectInfo[]> {
+		const base = this.getRevisionBase(s3Key);
+		return (await this.listInternal(base)).filter(
+			(item) => !item.key.slice(base.length).includes("/"),
+		);
+	}
+
+	// Copies a value just written to a new revision and deletes the oldest
+	// ones beyond the limit
+	private async recordRevision(
+		s3Key: string,
+		body: Uint8Array,
+		options: StoragePutOptions,
+	): Promise<void> {
+		await this.storage.put(
+			`${this.getRevisionBase(s3Key)}${ulid()}`,
+			body,
+			options,
+		);
+
+		const revisions = await this.listRevisions(s3Key);
+		const excess = revisions.length - (this.maxRevisions ?? 0);
+		if (excess > 0) {
+			await this.deleteObjects(
+				revisions.slice(0, excess).map((item) => item.key),
+			);
+		}
+	}
+
+	// Revisions outlive the key, so a deleted key has no latest version
+	private async listVersions(s3Key: string): Promise<StorageObjectVersion[]> {
+		if (this.maxRevisions === undefined) {
+			return await this.requireVersions()(s3Key);
+		}
+
+		const base = this.getRevisionBase(s3Key);
+		const [revisions, current] = await Promise.all([
+			this.listRevisions(s3Key),
+			this.headObject(s3Key),
+		]);
+		return revisions.reverse().map((item, index) => ({
+			versionId: item.key.slice(base.length),
+			lastModified: item.lastModified,
+			size: item.size,
+			isLatest: index === 0 && current !== null,
+			isDeleteMarker: false,
+		}));
+	}
+
+	private requireVersions(): NonNullable<StorageAdapter["listVersions"]> {
+		if (!this.storage.listVersions) {
+			throw new NotConfiguredError(
+				"Storage backend does not keep versions. Enable history to keep revisions.",
+			);
+		}
+		return this.storage.listVersions;
+	}
+
+	// Older versions are migrated from the schema version they were written
+	// with and validated against the current schema, but never written back
+	// or quarantined
+	private async readVersion<K extends keyof T>(
+		s3Key: string,
+		schemaKey: K,
+		versionId: string,
+	): Promise<ZodBucketEntry<z.infer<T[K]>> | null> {
+		let stored: StoredValue | null;
+		if (this.maxRevisions !== undefined) {
+			stored = await this.getStored(
+				`${this.getRevisionBase(s3Key)}${versionId}`,
+				undefined,
+				s3Key,
+			);
+		} else {
+			this.requireVersions();
+			stored = await this.getStored(s3Key, versionId);
+		}
+		if (stored === null) {
+			return null;
+		}
+
+		const { value } = this.migrateValue(schemaKey, stored);
+		return {
+			value: this.validate(
+				this.extractKeyFromS3Key(s3Key),
+				schemaKey,
+				value,
+				"read",
+			),
+			etag: stored.etag,
+			versionId,
+		};
+	}
+
+	// Reads a version to write back as the current value
+	private async readRestorable<K extends keyof T>(
+		s3Key: string,
+		schemaKey: K,
+		versionId: string,
+	): Promise<z.infer<T[K]>> {
+		const entry = await this.readVersion(s3Key, schemaKey, versionId);
+		if (entry === null) {
+			throw new ZodBucketError(
+				`Version ${versionId} of ${this.extractKeyFromS3Key(s3Key)} not found`,
+			);
+		}
+		return entry.value;
+	}
+
+	/**
+	 * List the versions of a value, newest first
+	 * Versions come from S3 versioning, or from the revisions kept when
+	 * `history` is enabled
+	 * @param key - The schema key to look up
+	 */
+	async history<K extends keyof T>(key: K): Promise<StorageObjectVersion[]> {
+		this.getSchema(key);
+		return await this.listVersions(this.getS3Key(String(key)));
+	}
+
+	/**
+	 * List the versions of a partitioned value, newest first
+	 * Values only kept in a compacted segment have no versions
+	 * @param path - The partitioned path
+	 * @param schemaKey - The schema key of the value
+	 */
+	async historyPartitioned<K extends keyof T>(
+		path: string,
+		schemaKey: K,
+	): Promise<StorageObjectVersion[]> {
+		this.parsePartitions(path, "read");
+		this.getSchema(schemaKey);
+		return await this.listVersions(
+			this.getS3Key(`${path}/${String(schemaKey)}.json`),
+		);
+	}
+
+	/**
+	 * Make an older version the current value again
+	 * The version is migrated and validated, then written like `set`, so
+	 * the versions in between are kept
+	 * @param key - The schema key to restore
+	 * @param versionId - A version listed by `history`
+	 * @returns The restored value
+	 */
+	async restore<K extends keyof T>(
+		key: K,
+		versionId: string,
+	): Promise<z.infer<T[K]>> {
+		this.getSchema(key);
+		const value = await this.readRestorable(
+			this.getS3Key(String(key)),
+			key,
+			versionId,
+		);
+		await this.set(key, value);
+		return value;
+	}
+
+	/**
+	 * Make an older version of a partitioned value current again
+	 * @param path - The partitioned path
+	 * @param schemaKey - The schema key of the value
+	 * @param versionId - A version listed by `historyPartitioned`
+	 * @returns The restored value
+	 */
+	async restorePartitioned<K extends keyof T>(
+		path: string,
+		schemaKey: K,
+		versionId: string,
+	): Promise<z.infer<T[K]>> {
+		this.parsePartitions(path, "write");
+		this.getSchema(schemaKey);
+		const value = await this.readRestorable(
+			this.getS3Key(`${path}/${String(schemaKey)}.json`),
+			schemaKey,
+			versionId,
+		);
+		await this.setPartitioned(path, schemaKey, value);
+		return value;
+	}
+
+	/**
+	 * Watch a value, or the partitioned objects matching partial partitions,
+	 * and call the handler with the old and new value of every change
+	 * Changes are found by polling ETags and are checked right away when the
+	 * `source` reports them. Values kept only in compacted segments are not
+	 * watched.
+	 * @param target - A schema key, or partial partitions to match
+	 * @param handler - Called with each create, update and delete, in order
+	 * @param options - Poll interval, change source and error callback; for
+	 * partitions, `schemaKey` limits the watch to one schema key
+	 * @returns The started watcher; `close` stops it
+	 */
+	watch<K extends keyof T>(
+		key: K,
+		handler: WatchHandler<z.infer<T[K]>, undefined>,
+		options?: WatchOptions,
+	): Promise<Watcher<z.infer<T[K]>, undefined>>;
+	watch<K extends keyof T = keyof T>(
+		partialPartitions: Partial<z.infer<P>>,
+		handler: WatchHandler<z.infer<T[K]>, z.infer<P>>,
+		options?: WatchOptions & { schemaKey?: K },
+	): Promise<Watcher<z.infer<T[K]>, z.infer<P>>>;
+	async watch<V, Parts>(
+		target: keyof T | Partial<z.infer<P>>,
+		handler: WatchHandler<V, Parts>,
+		options: WatchOptions & { schemaKey?: keyof T } = {},
+	): Promise<Watcher<V, Parts>> {
+		const store = (
+			typeof target === "object"
+				? this.getPartitionedWatchStore(target, options.schemaKey)
+				: this.getKeyWatchStore(target)
+		) as WatchStore<V, Parts>;
+		const watcher = new Watcher(store, handler, options);
+		await watcher.start();
+		return watcher;
+	}
+
+	// Resolves to an empty ETag for backends that do not report one
+	private async headETag(s3Key: string): Promise<string | null> {
+		const head = await this.headObject(s3Key);
+		return head === null ? null : (head.etag ?? "");
+	}
+
+	// The watcher knows the object changed, so the cached copy is dropped
+	private async readWatched<K extends keyof T>(
+		s3Key: string,
+		schemaKey: K,
+	): Promise<ZodBucketEntry<z.infer<T[K]>> | null> {
+		this.getSchema(schemaKey);
+		await this.invalidate(s3Key);
+		return await this.readValidEntry(s3Key, schemaKey, false);
+	}
+
+	private getKeyWatchStore(key: keyof T): WatchStore<unknown, undefined> {
+		this.getSchema(key);
+		const name = String(key);
+		const s3Key = this.getS3Key(name);
+
+		return {
+			list: async () => {
+				const etag = await this.headETag(s3Key);
+				return new Map(etag === null ? [] : [[name, etag]]);
+			},
+			resolve: (changed) => (changed === s3Key ? name : undefined),
+			head: () => this.headETag(s3Key),
+			read: async () => {
+				const entry = await this.readWatched(s3Key, key);
+				return entry && { ...entry, partitions: undefined };
+			},
+		};
+	}
+
+	private getPartitionedWatchStore(
+		partialPartitions: Partial<z.infer<P>>,
+		schemaKey?: keyof T,
+	): WatchStore<unknown, z.infer<P>> {
+		const pattern = this.getPartitionedPattern(partialPartitions, schemaKey);
+		const matcher = globToRegExp(pattern);
+
+		return {
+			list: async () => {
+				const etags = new Map<string, string>();
+				for await (const item of this.listObjects(getGlobBase(pattern))) {
+					if (matcher.test(item.key)) {
+						etags.set(this.extractKeyFromS3Key(item.key), item.etag ?? "");
+					}
+				}
+				return etags;
+			},
+			resolve: (s3Key) =>
+				matcher.test(s3Key) && !this.isInternalKey(s3Key)
+					? this.extractKeyFromS3Key(s3Key)
+					: undefined,
+			head: (key) => this.headETag(this.getS3Key(key)),
+			read: async (key) => {
+				// Keys end in `/<schemaKey>.json`
+				const separator = key.lastIndexOf("/");
+				const entry = await this.readWatched(
+					this.getS3Key(key),
+					key.slice(separator + 1, -".json".length),
+				);
+				return (
+					entry && {
+						...entry,
+						partitions: this.parsePartitions(key.slice(0, separator), "read"),
+					}
+				);
+			},
+		};
+	}
+
+	// Get all values for keys that exist in S3
+	async getAll(options: BatchOptions = {}): Promise<Partial<SchemaInfer<T>>> {
+		const keys = await this.list();
+		const result: Partial<SchemaInfer<T>> = {};
+
+		await mapWithConcurrency(
+			keys,
+			options.concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+			async ({ key }) => {
+				const value = await this.get(key);
+				if (value !== null) {
+					(result as Record<string, unknown>)[key as string] = value;
+				}
+			},
+		);
+
+		return result;
+	}
+
+	/**
+	 * Get a value, reporting an object that cannot be read or fails
+	 * validation as a failed result instead of throwing
+	 * @param key - The schema key to read
+	 */
+	async safeGet<K extends keyof T>(key: K): Promise<SafeResult<z.infer<T[K]>>> {
+		return await this.safely(() => this.get(key));
+	}
+
+	/**
+	 * Get all values with a result per key, so one bad object does not hide
+	 * the others
+	 * @param options - Maximum number of reads in flight
+	 */
+	async safeGetAll(options: BatchOptions = {}): Promise<{
+		[K in keyof T]?: SafeResult<z.infer<T[K]>>;
+	}> {
+		const keys = await this.list();
+		const results: { [K in keyof T]?: SafeResult<z.infer<T[K]>> } = {};
+
+		await mapWithConcurrency(
+			keys,
+			options.concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+			async ({ key }) => {
+				results[key] = await this.safeGet(key);
+			},
+		);
+
+		return results;
+	}
+
+	private toBatchKey(item: BatchKey<T>): { key: keyof T; path?: string } {
+		return typeof item === "object" ? item : { key: item };
+	}
+
+	// Validates the schema key and path before any request is made
+	private getBatchS3Key(key: keyof T, path?: string): string {
+		this.getSchema(key);
+		if (path === undefined) {
+			return this.getS3Key(String(key));
+		}
+
+		this.parsePartitions(path, "read");
+		return this.getS3Key(`${path}/${String(key)}.json`);
+	}
+
+	/**
+	 * Set several values, plain or partitioned, with bounded concurrency
+	 * Each item is validated and written on its own, so one invalid value
+	 * does not stop the others
+	 * @param items - Schema keys with their values, and an optional path
+	 * @param options - Maximum number of writes in flight
+	 */
+	async setMany(
+		items: BatchSetItem<T>[],
+		options: BatchOptions = {},
+	): Promise<BatchResult[]> {
+		return await mapWithConcurrency(
+			items,
+			options.concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+			async ({ key, value, path }): Promise<BatchResult> => {
+				const item = { key: String(key), path };
+				try {
+					if (path === undefined) {
+						await this.set(key, value);
+					} else {
+						await this.setPartitioned(path, key, value);
+					}
+					return { ...item, status: "success", value: undefined };
+				} catch (error) {
+					return { ...item, ...toBatchFailure(error) };
+				}
+			},
+		);
+	}
+
+	/**
+	 * Get several values, plain or partitioned, with bounded concurrency
+	 * @param keys - Schema keys, or schema keys with a partitioned path
+	 * @param options - Maximum number of reads in flight
+	 */
+	async getMany(
+		keys: BatchKey<T>[],
+		options: BatchOptions = {},
+	): Promise<BatchResult<SchemaInfer<T>[keyof T]>[]> {
+		return await mapWithConcurrency(
+			keys,
+			options.concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+			async (batchKey): Promise<BatchResult<SchemaInfer<T>[keyof T]>> => {
+				const { key, path } = this.toBatchKey(batchKey);
+				const item = { key: String(key), path };
+				try {
+					const s3Key = this.getBatchS3Key(key, path);
+					const entry = await this.interceptRead(
+						s3Key,
+						key,
+						path === undefined ? undefined : this.parsePartitions(path, "read"),
+						() =>
+							path === undefined
+								? this.readEntry(s3Key, key)
+								: this.readPartitionedEntry(s3Key, key),
+					);
+					return entry === null
+						? { ...item, status: "not_found" }
+						: { ...item, status: "success", value: entry.value };
+				} catch (error) {
+					return { ...item, ...toBatchFailure(error) };
+				}
+			},
+		);
+	}
+
+	/**
+	 * Delete several values, plain or partitioned
+	 * Existing objects are found with bounded concurrency and deleted in
+	 * batches of up to 1000, without taking per-object locks. With
+	 * middleware, each object is deleted through it instead, and those it
+	 * skips are reported as not found, as `delete` resolves to false for them.
+	 * Compacted copies of partitioned values are removed too.
+	 * @param keys - Schema keys, or schema keys with a partitioned path
+	 * @param options - Maximum number of existence checks in flight
+	 */
+	async deleteMany(
+		keys: BatchKey<T>[],
+		options: BatchOptions = {},
+	): Promise<BatchResult[]> {
+		const checked = await mapWithConcurrency(
+			keys,
+			options.concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+			(batchKey) => this.checkDeletion(batchKey),
+		);
+
+		const { failed, skipped } = await this.interceptDeletes(
+			checked.flatMap(({ item, s3Key, partitions, result }) =>
+				s3Key !== undefined && result === undefined
+					? [{ s3Key, schemaKey: item.key as keyof T, partitions }]
+					: [],
+			),
+			options.concurrency,
+		);
+		const errors = new Map(failed.map(({ key, error }) => [key, error]));
+		const compactedErrors = await this.removeCompactedKeys(
+			checked.flatMap(({ item, s3Key, partitions, result }) => {
+				const key = s3Key && this.extractKeyFromS3Key(s3Key);
+				return key !== undefined &&
+					partitions !== undefined &&
+					result === undefined &&
+					!errors.has(key) &&
+					!skipped.has(key)
+					? [{ key, schemaKey: item.key as keyof T }]
+					: [];
+			}),
+		);
+		for (const [key, error] of Array.from(compactedErrors)) {
+			errors.set(key, error);
+		}
+
+		return checked.map(({ item, s3Key, result }): BatchResult => {
+			if (result) {
+				return result;
+			}
+			const relativeKey = this.extractKeyFromS3Key(s3Key as string);
+			if (skipped.has(relativeKey)) {
+				return { ...item, status: "not_found" };
+			}
+			return errors.has(relativeKey)
+				? { ...item, status: "error", error: errors.get(relativeKey) }
+				: { ...item, status: "success", value: undefined };
+		});
+	}
+
+	// Resolves the object to delete, or the result when there is nothing to
+	// delete
+	private async checkDeletion(batchKey: BatchKey<T>): Promise<{
+		item: { key: string; path?: string };
+		s3Key?: string;
+		partitions?: z.infer<P>;
+		result?: BatchResult;
+	}> {
+		const { key, path } = this.toBatchKey(batchKey);
+		const item = { key: String(key), path };
+		try {
+			const s3Key = this.getBatchS3Key(key, path);
+			const exists =
+				(await this.headObject(s3Key)) !== null ||
+				(path !== undefined &&
+					(await this.isCompacted(this.extractKeyFromS3Key(s3Key), key)));
+			return {
+				item,
+				s3Key,
+				partitions:
+					path === undefined ? undefined : this.parsePartitions(path, "read"),
+				result: exists ? undefined : { ...item, status: "not_found" },
+			};
+		} catch (error) {
+			return { item, result: { ...item, ...toBatchFailure(error) } };
+		}
+	}
+
+	/**
+	 * Get a collection of documents validated against a single schema key
+	 * Documents are stored under `<prefix>/<schemaKey>/<id>.json`
+	 * @param schemaKey - The schema key to validate documents against
+	 */
+	collection<K extends keyof T>(
+		schemaKey: K,
+	): ZodBucketCollection<z.infer<T[K]>> {
+		this.getSchema(schemaKey);
+		const collectionPrefix = this.getS3Key(`${String(schemaKey)}/`);
+
+		const getDocumentKey = (id: string): string => {
+			if (!id || id.includes("/")) {
+				throw new ZodBucketError(`Invalid document id: ${id}`);
+			}
+			return `${collectionPrefix}${id}.json`;
+		};
+
+		const get = async (id: string): Promise<z.infer<T[K]> | null> => {
+			const s3Key = getDocumentKey(id);
+			const entry = await this.interceptRead(s3Key, schemaKey, undefined, () =>
+				this.readEntry(s3Key, schemaKey),
+			);
+			return entry === null ? null : entry.value;
+		};
+
+		return {
+			set: async (id, value) => {
+				const s3Key = getDocumentKey(id);
+				await this.interceptWrite(s3Key, `set-${s3Key}`, schemaKey, value);
+			},
+			get,
+			delete: async (id) => {
+				const s3Key = getDocumentKey(id);
+
+				return await this.interceptDelete(
+					s3Key,
+					schemaKey,
+					undefined,
+					async () => {
+						if ((await this.headObject(s3Key)) === null) {
+							return false;
+						}
+
+						return await this.withLock(`delete-${s3Key}`, () =>
+							this.deleteIndexed(s3Key, schemaKey),
+						);
+					},
+				);
+			},
+			exists: async (id) => {
+				const head = await this.headObject(getDocumentKey(id));
+				return head !== null && !isExpired(head.metadata);
+			},
+			list: async () => {
+				const documents: ZodBucketDocumentInfo[] = [];
+				for await (const document of this.iterateCollection(collectionPrefix)) {
+					documents.push(document);
+				}
+				return documents;
+			},
+			iterate: () => this.iterateCollection(collectionPrefix),
+		};
+	}
+
+	/**
+	 * Write several keys atomically
+	 * Writes are collected while `fn` runs and validated as they are added,
+	 * so nothing is written when a value is invalid or `fn` throws. The
+	 * locks of every key are then taken in sorted order, and a journal under
+	 * `<prefix>/_transactions/` records the writes before the first one is
+	 * made. When a write fails, the keys already written are restored.
+	 * A key written twice keeps its last write. Each write runs through the
+	 * middleware around the next one, with the commit innermost; middleware
+	 * that skips a write cancels the whole transaction.
+	 * @param fn - Adds writes to the transaction
+	 * @returns The result of `fn`
+	 */
+	async transaction<R>(fn: (tx: Transaction<T>) => Promise<R> | R): Promise<R> {
+		const operations = new Map<string, TransactionOperation<T, P>>();
+		let open = true;
+		const add = (operation: TransactionOperation<T, P>) => {
+			if (!open) {
+				throw new ZodBucketError("Transaction already committed");
+			}
+			operations.delete(operation.s3Key);
+			operations.set(operation.s3Key, operation);
+		};
+
+		const result = await fn({
+			set: (key, value) =>
+				add({
+					type: "set",
+					s3Key: this.getS3Key(String(key)),
+					schemaKey: key,
+					partitioned: false,
+					value: this.validate(String(key), key, value, "write"),
+				}),
+			delete: (key) => {
+				this.getSchema(key);
+				add({
+					type: "delete",
+					s3Key: this.getS3Key(String(key)),
+					schemaKey: key,
+					partitioned: false,
+				});
+			},
+			setPartitioned: (path, schemaKey, value) => {
+				const partitions = this.parsePartitions(path, "write");
+				const key = `${path}/${String(schemaKey)}.json`;
+				add({
+					type: "set",
+					s3Key: this.getS3Key(key),
+					schemaKey,
+					partitioned: true,
+					partitions,
+					value: this.validate(key, schemaKey, value, "write"),
+					metadata: this.getPartitionMetadata(partitions),
+				});
+			},
+		});
+		open = false;
+
+		const collected = Array.from(operations.values());
+		if (collected.length > 0) {
+			await this.interceptTransaction(collected, () =>
+				this.withLocks(this.getTransactionLocks(collected), () =>
+					this.commitTransaction(collected),
+				),
+			);
+		}
+		return result;
+	}
+
+	// Runs each operation's middleware around the next one's, so after hooks
+	// only run once every write is committed. Values changed by middleware
+	// are validated again before the commit.
+	private async interceptTransaction(
+		operations: TransactionOperation<T, P>[],
+		commit: () => Promise<void>,
+	): Promise<void> {
+		let committed = false;
+		const cancelled = () =>
+			new ZodBucketError("Transaction cancelled by middleware");
+
+		const run = async (index: number): Promise<void> => {
+			if (index === operations.length) {
+				await commit();
+				committed = true;
+				return;
+			}
+
+			const operation = operations[index];
+			await this.intercept(
+				operation.type,
+				operation.schemaKey,
+				operation.s3Key,
+				operation.partitions,
+				operation.type === "set" ? operation.value : null,
+				async (context) => {
+					if (operation.type === "set") {
+						operation.value = this.validate(
+							context.key,
+							operation.schemaKey,
+							context.value,
+							"write",
+						);
+						context.value = operation.value;
+					}
+					await run(index + 1);
+					// Thrown through the outer middleware, so their after hooks
+					// do not run
+					if (!committed) {
+						throw cancelled();
+					}
+				},
+			);
+		};
+
+		await run(0);
+		if (!committed) {
+			throw cancelled();
+		}
+	}
+
+	// Every lock a single write to the key takes, so transactions exclude
+	// set, update and delete alike
+	private getTransactionLocks(
+		operations: Array<{ s3Key: string; partitioned: boolean }>,
+	): string[] {
+		return Array.from(
+			new Set(
+				operations.flatMap(({ s3Key, partitioned }) =>
+					partitioned
+						? [`setPartitioned-${s3Key}`, `deletePartitioned-${s3Key}`]
+						: [`set-${s3Key}`, `delete-${s3Key}`],
+				),
+			),
+		).sort();
+	}
+
+	// Takes the locks one after another, in the order given
+	private async withLocks<R>(
+		lockNames: string[],
+		fn: () => Promise<R>,
+	): Promise<R> {
+		const [lockName, ...rest] = lockNames;
+		if (lockName === undefined) {
+			return await fn();
+		}
+		return await this.withLock(lockName, () => this.withLocks(rest, fn));
+	}
+
+	private getTransactionBase(id: string): string {
+		return this.getS3Key(`${TRANSACTION_PREFIX}${id}`);
+	}
+
+	private async writeJournal(journal: TransactionJournal): Promise<void> {
+		await this.storage.put(
+			`${this.getTransactionBase(journal.id)}.json`,
+			textEncoder.encode(JSON.stringify(journal)),
+			{ contentType: "application/json" },
+		);
+	}
+
+	private async readJournal(id: string): Promise<TransactionJournal | null> {
+		const s3Key = `${this.getTransactionBase(id)}.json`;
+		const object = await this.storage.get(s3Key);
+		return object === null
+			? null
+			: this.parseJsonObject<TransactionJournal>(s3Key, object.body);
+	}
+
+	// Parses the JSON the bucket writes for itself, such as journals and
+	// segment indexes
+	private parseJsonObject<V>(s3Key: string, body: Uint8Array): V {
+		try {
+			return JSON.parse(textDecoder.decode(body)) as V;
+		} catch (error) {
+			throw new CorruptObjectError(this.extractKeyFromS3Key(s3Key), error);
+		}
+	}
+
+	// Copies an object's bytes and metadata as they are; returns false when
+	// there is nothing to copy
+	private async copyObject(from: string, to: string): Promise<boolean> {
+		const object = await this.storage.get(from);
+		if (object === null) {
+			return false;
+		}
+		await this.storage.put(to, object.body, {
+			contentType: object.contentType,
+			contentEncoding: object.contentEncoding,
+			metadata: object.metadata,
+		});
+		await this.invalidate(to);
+		return true;
+	}
+
+	// The journal and every staged copy are written before the first key
+	private async commitTransaction(
+		operations: TransactionOperation<T, P>[],
+	): Promise<void> {
+		const id = ulid();
+		const base = this.getTransactionBase(id);
+		const journal: TransactionJournal = {
+			id,
+			state: "preparing",
+			operations: operations.map((operation) => ({
+				type: operation.type,
+				key: this.extractKeyFromS3Key(operation.s3Key),
+				schemaKey: String(operation.schemaKey),
+				partitioned: operation.partitioned,
+			})),
+		};
+
+		await this.writeJournal(journal);
+		try {
+			await mapWithConcurrency(
+				operations,
+				DEFAULT_BATCH_CONCURRENCY,
+				async (operation, index) => {
+					await this.copyObject(operation.s3Key, `${base}/${index}.before`);
+					if (operation.type === "set") {
+						await this.putValue(
+							`${base}/${index}.after`,
+							operation.schemaKey,
+							operation.value,
+							operation.metadata,
+						);
+					}
+				},
+			);
+		} catch (error) {
+			throw await rollBackAfter(error, () => this.discardTransaction(id));
+		}
+
+		await this.writeJournal({ ...journal, state: "applying" });
+		try {
+			for (const operation of operations) {
+				if (operation.type === "set") {
+					await this.putIndexed(
+						operation.s3Key,
+						operation.schemaKey,
+						operation.value,
+						operation.metadata,
+					);
+				} else {
+					await this.deleteIndexed(operation.s3Key, operation.schemaKey);
+				}
+			}
+		} catch (error) {
+			throw await rollBackAfter(error, () =>
+				this.rollBackTransaction({ ...journal, state: "rolling-back" }),
+			);
+		}
+		await this.discardTransaction(id);
+	}
+
+	// The journal goes first, so a transaction is never recovered from
+	// partly deleted copies. Copies left behind are deleted by recovery.
+	private async discardTransaction(id: string): Promise<void> {
+		const base = this.getTransactionBase(id);
+		await this.storage.delete(`${base}.json`);
+		const staged = await this.listInternalKeys(`${base}/`);
+		if (staged.length > 0) {
+			await this.deleteObjects(staged);
+		}
+	}
+
+	// Rewrites every key from its journal, reading the values it sets from
+	// their staged copies
+	private async rollForwardTransaction(
+		journal: TransactionJournal,
+	): Promise<void> {
+		const base = this.getTransactionBase(journal.id);
+		for (let index = 0; index < journal.operations.length; index++) {
+			const operation = journal.operations[index];
+			const s3Key = this.getS3Key(operation.key);
+			if (operation.type === "delete") {
+				await this.deleteIndexed(s3Key, operation.schemaKey);
+				continue;
+			}
+			const staged = await this.getStored(`${base}/${index}.after`);
+			if (staged !== null) {
+				await this.putIndexed(
+					s3Key,
+					operation.schemaKey,
+					staged.value,
+					staged.metadata,
+				);
+			}
+		}
+		await this.discardTransaction(journal.id);
+	}
+
+	// Puts back the object each key held before the transaction, or deletes
+	// the keys that did not exist
+	private async rollBackTransaction(
+		journal: TransactionJournal,
+	): Promise<void> {
+		await this.writeJournal(journal);
+		const base = this.getTransactionBase(journal.id);
+		for (let index = 0; index < journal.operations.length; index++) {
+			const operation = journal.operations[index];
+			const s3Key = this.getS3Key(operation.key);
+			const indexed = this.getIndexFields(operation.schemaKey).length > 0;
+			const current = indexed ? await this.readIndexedValue(s3Key) : null;
+
+			if (!(await this.copyObject(`${base}/${index}.before`, s3Key))) {
+				await this.deleteObject(s3Key);
+			}
+			if (indexed) {
+				await this.moveIndexPointers(
+					operation.schemaKey,
+					s3Key,
+					current,
+					await this.readIndexedValue(s3Key),
+				);
+			}
+		}
+		await this.discardTransaction(journal.id);
+	}
+
+	// Re-reads the journal under its locks, since the transaction may have
+	// finished while they were taken
+	private async recoverTransaction(
+		journal: TransactionJournal,
+		report: TransactionRecoveryReport,
+	): Promise<void> {
+		const locks = this.getTransactionLocks(
+			journal.operations.map((operation) => ({
+				s3Key: this.getS3Key(operation.key),
+				partitioned: operation.partitioned,
+			})),
+		);
+
+		await this.withLocks(locks, async () => {
+			const current = await this.readJournal(journal.id);
+			if (current?.state === "applying") {
+				await this.rollForwardTransaction(current);
+				report.rolledForward.push(current.id);
+			} else if (current?.state === "rolling-back") {
+				await this.rollBackTransaction(current);
+				report.rolledBack.push(current.id);
+			} else if (current?.state === "preparing") {
+				await this.discardTransaction(current.id);
+				report.discarded.push(current.id);
+			}
+		});
+	}
+
+	/**
+	 * Finish transactions whose process died partway through
+	 * Transactions that had started writing their keys are rolled forward
+	 * from the journal, those that were rolling back are rolled back, and
+	 * those that had not written anything yet are discarded.
+	 * @param options - Only transactions started at least `minAgeMs` ms ago
+	 * are recovered (default: 60000), so running ones are left alone
+	 */
+	async recoverTransactions(
+		options: { minAgeMs?: number } = {},
+	): Promise<TransactionRecoveryReport> {
+		const report: TransactionRecoveryReport = {
+			rolledForward: [],
+			rolledBack: [],
+			discarded: [],
+			failed: [],
+		};
+		const base = this.getS3Key(TRANSACTION_PREFIX);
+		const cutoff = Date.now() - (options.minAgeMs ?? DEFAULT_RECOVERY_AGE);
+		const ids = Array.from(
+			new Set(
+				(await this.listInternalKeys(base)).map(
+					(s3Key) => s3Key.slice(base.length).split(TRANSACTION_ID_END)[0],
+				),
+			),
+		).filter((id) => decodeTime(id) <= cutoff);
+
+		for (const id of ids) {
+			try {
+				const journal = await this.readJournal(id);
+				if (journal === null) {
+					// Copies left by a transaction that was being discarded
+					await this.discardTransaction(id);
+					report.discarded.push(id);
+				} else {
+					await this.recoverTransaction(journal, report);
+				}
+			} catch (error) {
+				report.failed.push({ id, error });
+			}
+		}
+
+		return report;
+	}
+
+	/**
+	 * Upgrade every object under the prefix to the current schema version
+	 * Objects that fail validation after migrating are reported and left as is
+	 * @param options - Set dryRun to count objects without rewriting them
+	 */
+	async migrateAll(
+		options: { dryRun?: boolean } = {},
+	): Promise<MigrationReport> {
+		const report: MigrationReport = { scanned: 0, migrated: 0, failed: [] };
+
+		for await (const item of this.iterate()) {
+			const schemaKey = this.resolveSchemaKey(item.key);
+			if (schemaKey === undefined) {
+				continue;
+			}
+
+			report.scanned++;
+			try {
+				if (await this.migrateObject(item.key, schemaKey, options.dryRun)) {
+					report.migrated++;
+				}
+			} catch (error) {
+				report.failed.push({ key: item.key, error });
+			}
+		}
+
+		return report;
+	}
+
+	// Returns whether the object needed migrating
+	private async migrateObject(
+		key: string,
+		schemaKey: keyof T,
+		dryRun = false,
+	): Promise<boolean> {
+		const s3Key = this.getS3Key(key);
+		const stored = await this.getStored(s3Key);
+		if (stored === null) {
+			return false;
+		}
+
+		const { value, migrated } = this.migrateValue(schemaKey, stored);
+		if (!migrated) {
+			return false;
+		}
+
+		const validatedValue = this.validate(key, schemaKey, value, "read");
+		if (!dryRun) {
+			await this.putIndexed(
+				s3Key,
+				schemaKey,
+				validatedValue,
+				stored.metadata,
+				{ ifMatch: stored.etag },
+				stored.value,
+			);
+		}
+
+		return true;
+	}
+
+	/**
+	 * Rewrite encrypted objects with the key provider's current key
+	 * Objects under schema keys that should be encrypted but are stored in
+	 * plain text are encrypted as well
+	 * @param options - Set dryRun to count objects without rewriting them
+	 */
+	async reencryptAll(
+		options: { dryRun?: boolean } = {},
+	): Promise<ReencryptionReport> {
+		if (!this.encryption) {
+			throw new NotConfiguredError(
+				"Encryption not configured. Cannot re-encrypt.",
+			);
+		}
+		const currentKey = await this.encryption.keyProvider.getCurrentKey();
+		const report: ReencryptionReport = {
+			scanned: 0,
+			reencrypted: 0,
+			failed: [],
+		};
+
+		for await (const item of this.iterate()) {
+			const schemaKey = this.resolveSchemaKey(item.key);
+			if (schemaKey === undefined || !this.shouldEncrypt(schemaKey)) {
+				continue;
+			}
+
+			report.scanned++;
+			try {
+				const s3Key = this.getS3Key(item.key);
+				const stored = await this.getStored(s3Key);
+				// Objects sealed before contexts were bound are rewritten too
+				if (
+					stored === null ||
+					(stored.metadata[ENCRYPTION_METADATA.keyId] === currentKey.id &&
+						stored.metadata[ENCRYPTION_METADATA.context] !== undefined)
+				) {
+					continue;
+				}
+
+				if (!options.dryRun) {
+					await this.putValue(s3Key, schemaKey, stored.value, stored.metadata, {
+						ifMatch: stored.etag,
+					});
+				}
+				report.reencrypted++;
+			} catch (error) {
+				report.failed.push({ key: item.key, error });
+			}
+		}
+
+		return report;
+	}
+
+	/**
+	 * Write plain and partitioned values, validated, to an archive
+	 * The archive ends with a manifest of each object's schema key,
+	 * partitions and checksum. Collection documents are not exported.
+	 * @param stream - Receives the archive and is ended once it is written
+	 * @param options - Partitions and schema keys to export, and the format
+	 */
+	async export(
+		stream: NodeJS.WritableStream,
+		options: ExportOptions<T, P> = {},
+	): Promise<ExportReport> {
+		const schemaKeys =
+			options.schemaKeys ?? (Object.keys(this.schema) as Array<keyof T>);
+		for (const schemaKey of schemaKeys) {
+			this.getSchema(schemaKey);
+		}
+
+		const report: ExportReport = { exported: 0, failed: [] };
+		await writeArchive(
+			stream,
+			this.exportObjects(schemaKeys, options.partialPartitions, report),
+			options.format ?? "ndjson",
+			schemaKeys.map(String),
+		);
+		return report;
+	}
+
+	// Plain values, unless partitions are given, then partitioned values
+	private async *exportObjects(
+		schemaKeys: Array<keyof T>,
+		partialPartitions: Partial<z.infer<P>> | undefined,
+		report: ExportReport,
+	): AsyncGenerator<ArchiveObject> {
+		const read = async <R>(key: string, fn: () => Promise<R | null>) => {
+			try {
+				return await fn();
+			} catch (error) {
+				report.failed.push({ key, error });
+				return null;
+			}
+		};
+
+		if (partialPartitions === undefined) {
+			for (const schemaKey of schemaKeys) {
+				const key = String(schemaKey);
+				const value = await read(key, () => this.get(schemaKey));
+				if (value !== null) {
+					report.exported++;
+					yield { key, schemaKey: key, value };
+				}
+			}
+			if (!this.partitionParser) {
+				return;
+			}
+		}
+
+		for (const schemaKey of schemaKeys) {
+			const suffix = `/${String(schemaKey)}.json`;
+			for (const match of await this.findPartitioned(
+				partialPartitions ?? {},
+				schemaKey,
+			)) {
+				const entry = await read(match.key, () =>
+					this.getPartitioned(match.key.slice(0, -suffix.length), schemaKey),
+				);
+				if (entry !== null) {
+					report.exported++;
+					yield {
+						key: match.key,
+						schemaKey: String(schemaKey),
+						partitions: match.partitions,
+						value: entry.value,
+					};
+				}
+			}
+		}
+	}
+
+	/**
+	 * Restore an archive written by `export` through `set` and
+	 * `setPartitioned`, so values are validated and written under the mutex
+	 * Records that fail their checksum or validation are reported and left
+	 * out. An archive that has no manifest, or does not match it, is
+	 * rejected once it has been read, or before anything is written with
+	 * `validate`.
+	 * @param source - The archive, e.g. a file read stream
+	 * @param options - What to do with existing keys, and whether to check
+	 * the whole archive first
+	 */
+	async import(
+		source: AsyncIterable<Uint8Array>,
+		options: ImportOptions = {},
+	): Promise<ImportReport> {
+		const mode = options.mode ?? "fail";
+		const report: ImportReport = { imported: 0, skipped: 0, failed: [] };
+
+		if (options.validate) {
+			const records = await this.readArchiveRecords(source);
+			await this.checkImport(records, mode, report);
+			if (report.failed.length === 0) {
+				for (const record of records) {
+					await this.importRecord(record, mode, report);
+				}
+			}
+			return report;
+		}
+
+		let manifest: ArchiveManifest | undefined;
+		const entries: ArchiveEntry[] = [];
+		for await (const item of readArchive(source)) {
+			if (item.type === "manifest") {
+				manifest = item;
+			} else {
+				entries.push(item);
+				await this.importRecord(item, mode, report);
+			}
+		}
+		checkManifest(manifest, entries);
+		return report;
+	}
+
+	private async readArchiveRecords(
+		source: AsyncIterable<Uint8Array>,
+	): Promise<ArchiveRecord[]> {
+		let manifest: ArchiveManifest | undefined;
+		const records: ArchiveRecord[] = [];
+		for await (const item of readArchive(source)) {
+			if (item.type === "manifest") {
+				manifest = item;
+			} else {
+				records.push(item);
+			}
+		}
+		checkManifest(manifest, records);
+		return records;
+	}
+
+	// Reports every invalid record, and throws on the first existing key in
+	// "fail" mode, before anything is written
+	private async checkImport(
+		records: ArchiveRecord[],
+		mode: ImportOptions["mode"],
+		report: ImportReport,
+	): Promise<void> {
+		for (const record of records) {
+			let target: ImportTarget<T>;
+			try {
+				target = this.getImportTarget(record);
+			} catch (error) {
+				report.failed.push({ key: record.key, error });
+				continue;
+			}
+			if (mode === "fail" && (await this.importTargetExists(target))) {
+				throw new ConflictError(record.key);
+			}
+		}
+	}
+
+	private async importRecord(
+		record: ArchiveRecord,
+		mode: ImportOptions["mode"],
+		report: ImportReport,
+	): Promise<void> {
+		let target: ImportTarget<T>;
+		try {
+			target = this.getImportTarget(record);
+		} catch (error) {
+			report.failed.push({ key: record.key, error });
+			return;
+		}
+
+		if (mode !== "overwrite" && (await this.importTargetExists(target))) {
+			if (mode === "fail") {
+				throw new ConflictError(record.key);
+			}
+			report.skipped++;
+			return;
+		}
+
+		const { schemaKey, path, value } = target;
+		try {
+			if (path === undefined) {
+				await this.set(schemaKey, value);
+			} else {
+				await this.setPartitioned(path, schemaKey, value);
+			}
+			report.imported++;
+		} catch (error) {
+			report.failed.push({ key: record.key, error });
+		}
+	}
+
+	// Checks a record's checksum, key and value, and returns where it is
+	// restored to
+	private getImportTarget(record: ArchiveRecord): ImportTarget<T> {
+		if (
+			getChecksum({ json: record.value, meta: record.meta }) !== record.sha256
+		) {
+			throw new CorruptObjectError(
+				record.key,
+				new Error("Checksum does not match the archived value"),
+			);
+		}
+
+		const schemaKey = record.schemaKey as keyof T;
+		let value: unknown;
+		try {
+			value = getRecordValue(record);
+		} catch (error) {
+			throw new CorruptObjectError(record.key, error);
+		}
+		this.validate(record.key, schemaKey, value, "write");
+		if (record.partitions === undefined && record.key === record.schemaKey) {
+			return { schemaKey, value };
+		}
+
+		const suffix = `/${record.schemaKey}.json`;
+		if (record.partitions === undefined || !record.key.endsWith(suffix)) {
+			throw new ZodBucketError(`Invalid archive key: ${record.key}`);
+		}
+		const path = record.key.slice(0, -suffix.length);
+		this.parsePartitions(path, "write");
+		return { schemaKey, path, value };
+	}
+
+	private async importTargetExists(target: ImportTarget<T>): Promise<boolean> {
+		return target.path === undefined
+			? await this.exists(target.schemaKey)
+			: (await this.statPartitioned(target.path, target.schemaKey)) !== null;
+	}
+
+	// NEW: Enhanced methods with partition support
+
+	/**
+	 * Set a value using a partitioned path
+	 * @param path - The partitioned path (e.g., "year=2023/month=12/day=01")
 	 * @param schemaKey - The schema key to validate against
 	 * @param value - The value to store
+	 * @param options - Optional ETag preconditions for a conditional write
+	 */
+	async setPartitioned<K extends keyof T>(
+		path: string,
+		schemaKey: K,
+		value: z.infer<T[K]>,
+		options?: SetOptions,
+	): Promise<void> {
+		// Validate the path against partition schema
+		const partitions = this.parsePartitions(path, "write");
+		this.getSchema(schemaKey);
+
+		// Construct the full S3 key
+		const s3Key = this.getS3Key(`${path}/${String(schemaKey)}.json`);
+
+		await this.interceptWrite(
+			s3Key,
+			`setPartitioned-${s3Key}`,
+			schemaKey,
+			value,
+			partitions,
+			options,
+		);
+	}
+
+	/**
+	 * Apply a read-modify-write update to a partitioned value
+	 * Uses the same locking strategy as `update`
+	 * @param path - The partitioned path
+	 * @param schemaKey - The schema key to validate against
+	 * @param fn - Receives the current value (or null) and returns the next one
+	 * @param options - Concurrency strategy, number of retries and a new ttl
+	 */
+	async updatePartitioned<K extends keyof T>(
+		path: string,
+		schemaKey: K,
+		fn: UpdateFunction<z.infer<T[K]>>,
+		options?: UpdateOptions,
+	): Promise<z.infer<T[K]>> {
+		const partitions = this.parsePartitions(path, "write");
+		this.getSchema(schemaKey);
+		const s3Key = this.getS3Key(`${path}/${String(schemaKey)}.json`);
+
+		return await this.updateValue(
+			s3Key,
+			`setPartitioned-${s3Key}`,
+			schemaKey,
+			fn,
+			partitions,
+			options,
+		);
+	}
+
+	/**
+	 * Shallow-merge a partial value into a partitioned value
+	 * @param path - The partitioned path
+	 * @param schemaKey - The schema key to validate against
+	 * @param partial - Fields to overwrite
+	 * @param options - Concurrency strategy, number of retries and a new ttl
+	 */
+	async patchPartitioned<K extends keyof T>(
+		path: string,
+		schemaKey: K,
+		partial: Partial<z.infer<T[K]>>,
+		options?: UpdateOptions,
+	): Promise<z.infer<T[K]>> {
+		return await this.updatePartitioned(
+			path,
+			schemaKey,
+			(current) => ({ ...current, ...partial }) as z.infer<T[K]>,
+			options,
+		);
+	}
+
+	/**
+	 * Get a value using a partitioned path
+	 * The result includes the object's ETag for use with conditional writes.
+	 * Pass a versionId from `historyPartitioned` to read an older version.
+	 */
+	async getPartitioned<K extends keyof T>(
+		path: string,
+		schemaKey: K,
+		options: { versionId?: string } = {},
+	): Promise<
+		(ZodBucketEntry<z.infer<T[K]>> & { partitions: z.infer<P> }) | null
+	> {
+		// Validate the path against partition schema
+		const partitions = this.parsePartitions(path, "read");
+
+		this.getSchema(schemaKey);
+
+		const s3Key = this.getS3Key(`${path}/${String(schemaKey)}.json`);
+		const entry = await this.interceptRead(s3Key, schemaKey, partitions, () =>
+			options.versionId === undefined
+				? this.readPartitionedEntry(s3Key, schemaKey)
+				: this.readVersion(s3Key, schemaKey, options.versionId),
+		);
+
+		return entry === null ? null : { ...entry, partitions };
+	}
+
+	/**
+	 * Get a partitioned object's size, ETag and metadata without downloading
+	 * it
+	 * @param path - The partitioned path (e.g., "year=2023/month=12/day=01")
+	 * @param schemaKey - The schema key of the value
+	 * @returns The object's details with the partitions parsed from the path,
+	 * or null when it does not exist
+	 */
+	async statPartitioned<K extends keyof T>(
+		path: string,
+		schemaKey: K,
+	): Promise<(ObjectStat & { partitions: z.infer<P> }) | null> {
+		const partitions = this.parsePartitions(path, "read");
+
+		this.getSchema(schemaKey);
+
+		const stat = await this.statObject(
+			this.getS3Key(`${path}/${String(schemaKey)}.json`),
+		);
+		return stat === null ? null : { ...stat, partitions };
+	}
+
+	/**
+	 * Get a partitioned value, reporting an object that cannot be read or
+	 * fails validation as a failed result instead of throwing
+	 */
+	async safeGetPartitioned<K extends keyof T>(
+		path: string,
+		schemaKey: K,
+	): Promise<
+		SafeResult<ZodBucketEntry<z.infer<T[K]>> & { partitions: z.infer<P> }>
+	> {
+		return await this.safely(() => this.getPartitioned(path, schemaKey));
+	}
+
+	// The S3 key pattern of partitioned objects
+	private getPartitionedPattern(
+		partialPartitions: Partial<z.infer<P>>,
+		schemaKey?: keyof T,
+	): string {
+		const globPattern =
+			this.requirePartitionParser().createGlobPattern(partialPartitions);
+		return this.getS3Key(
+			schemaKey
+				? `${globPattern}/${String(schemaKey)}.json`
+				: `${globPattern}/*.json`,
+		);
+	}
+
+	/**
+	 * Find objects matching partition patterns, including compacted ones
+	 * @param partialPartitions - Partial partition specification
+	 * @param schemaKey - Optional schema key to filter by
+	 */
+	async findPartitioned<K extends keyof T>(
+		partialPartitions: Partial<z.infer<P>>,
+		schemaKey?: K,
+	): Promise<Array<PartitionedKey<P> & { schemaKey: keyof T }>> {
+		const results = await this.findPartitionedObjects(
+			partialPartitions,
+			schemaKey,
+		);
+		const compacted = await this.findCompacted(
+			this.getPartitionedPattern(partialPartitions, schemaKey),
+			schemaKey === undefined ? Object.keys(this.schema) : [schemaKey],
+			new Set(results.map((result) => result.key)),
+		);
+
+		return [
+			...results,
+			...compacted.map(({ key, partitions, schemaKey: compactedKey }) => ({
+				key,
+				partitions,
+				schemaKey: compactedKey,
+			})),
+		];
+	}
+
+	// Partitioned objects stored on their own, leaving out compacted ones
+	private async findPartitionedObjects(
+		partialPartitions: Partial<z.infer<P>>,
+		schemaKey?: keyof T,
+	): Promise<Array<PartitionedKey<P> & { schemaKey: keyof T }>> {
+		const partitionParser = this.requirePartitionParser();
+		const results: Array<PartitionedKey<P> & { schemaKey: keyof T }> = [];
+
+		for await (const objKey of this.findMatchingKeys(
+			this.getPartitionedPattern(partialPartitions, schemaKey),
+		)) {
+			try {
+				// Extract the relative path from the S3 key
+				const relativePath = this.extractKeyFromS3Key(objKey);
+
+				// Parse the path to extract partitions and schema key
+				const pathParts = relativePath.split("/");
+				const fileName = pathParts.pop();
+				const partitionPath = pathParts.join("/");
+				const extractedSchemaKey = fileName?.replace(".json", "");
+
+				if (!(extractedSchemaKey && extractedSchemaKey in this.schema)) {
+					// Skip if not a valid schema key
+					continue;
+				}
+
+				// Validate the partition path
+				const partitions = partitionParser.parse(partitionPath);
+
+				results.push({
+					key: relativePath,
+					partitions,
+					schemaKey: extractedSchemaKey as keyof T,
+				});
+			} catch (error) {
+				// Skip objects that don't match the partition schema
+			}
+		}
+
+		return results;
+	}
+
+	/**
+	 * Start a query over the partitioned values of one schema key
+	 * Objects are found as in `findPartitioned` and read with bounded
+	 * concurrency
+	 * @param schemaKey - The schema key to query
+	 */
+	query<K extends keyof T>(schemaKey: K): Query<z.infer<T[K]>, z.infer<P>> {
+		this.requirePartitionParser();
+		this.getSchema(schemaKey);
+		// Compacted values found by `find` are read straight from their segment
+		const compacted = new Map<string, SegmentLocation>();
+
+		return new Query(
+			{
+				find: async (partitions) => {
+					const objects = await this.findPartitionedObjects(
+						partitions,
+						schemaKey,
+					);
+					const segmentEntries = await this.findCompacted(
+						this.getPartitionedPattern(partitions, schemaKey),
+						[schemaKey],
+						new Set(objects.map((object) => object.key)),
+					);
+					for (const object of objects) {
+						compacted.delete(object.key);
+					}
+					for (const { key, segment, line } of segmentEntries) {
+						compacted.set(key, { segment, line });
+					}
+
+					return [...objects, ...segmentEntries].map((match) => ({
+						key: match.key,
+						path: match.key.slice(0, match.key.lastIndexOf("/")),
+						partitions: match.partitions,
+					}));
+				},
+				read: async ({ key }) => {
+					const location = compacted.get(key);
+					const entry = location
+						? await this.readCompactedEntry(key, schemaKey, location)
+						: await this.readEntry(this.getS3Key(key), schemaKey);
+					return entry === null ? null : entry.value;
+				},
+			},
+			{ concurrency: DEFAULT_BATCH_CONCURRENCY },
+		);
+	}
+
+	// Log objects are keyed `<base><partition>/<name>.json`, and partitions
+	// sort in time order
+	private async *listLogObjects(
+		base: string,
+		from: string,
+	): AsyncGenerator<{ key: string; partition: string }> {
+		let cursor: string | undefined;
+		do {
+			const page = await this.storage.list(base, {
+				startAfter: `${base}${from}`,
+				cursor,
+			});
+			for (const item of page.items) {
+				const name = item.key.slice(base.length);
+				yield {
+					key: item.key,
+					partition: name.slice(0, name.lastIndexOf("/")),
+				};
+			}
+			cursor = page.cursor;
+		} while (cursor);
+	}
+
+	// Each record is migrated and validated on its own
+	private async readLogObject<K extends keyof T>(
+		s3Key: string,
+		schemaKey: K,
+	): Promise<LogRecord<z.infer<T[K]>>[]> {
+		const stored = await this.getStored(s3Key);
+		if (stored === null) {
+			return [];
+		}
+
+		const key = this.extractKeyFromS3Key(s3Key);
+		if (!Array.isArray(stored.value)) {
+			throw new CorruptObjectError(
+				key,
+				new Error("Log object is not an array of records"),
+			);
+		}
+
+		return (stored.value as StoredLogRecord[]).map((record) => ({
+			id: record.id,
+			timestamp: new Date(record.timestamp),
+			value: this.validate(
+				`${key}#${record.id}`,
+				schemaKey,
+				this.migrateValue(schemaKey, { ...stored, value: record.value }).value,
+				"read",
+			),
+		}));
+	}
+
+	/**
+	 * Open an append-only log of records for one schema key
+	 * Records are buffered and written in batches, each as a new object
+	 * under `_log/<schemaKey>/<time partition>/`, so records in the same
+	 * partition never overwrite each other
+	 * @param schemaKey - The schema key records are validated against
+	 * @param options - Time partition size and when buffered records are
+	 * flushed
+	 */
+	appendLog<K extends keyof T>(
+		schemaKey: K,
+		options: AppendLogOptions = {},
+	): AppendLog<z.infer<T[K]>> {
+		this.getSchema(schemaKey);
+		const base = this.getS3Key(`${LOG_PREFIX}${String(schemaKey)}/`);
+
+		return new AppendLog<z.infer<T[K]>>(
+			{
+				validate: (value) =>
+					this.validate(String(schemaKey), schemaKey, value, "write"),
+				write: async (partition, name, records) => {
+					try {
+						await this.putValue(
+							`${base}${partition}/${name}.json`,
+							schemaKey,
+							records,
+							undefined,
+							{ ifNoneMatch: "*" },
+						);
+					} catch (error) {
+						// Failed batches are retried unchanged, so the batch was
+						// written by an earlier attempt whose response was lost
+						if (!(error instanceof ConflictError)) {
+							throw error;
+						}
+					}
+				},
+				list: (from) => this.listLogObjects(base, from),
+				read: (key) => this.readLogObject(key, schemaKey),
+			},
+			{ concurrency: DEFAULT_BATCH_CONCURRENCY, ...options },
+		);
+	}
+
+	/**
+	 * Delete a value using a partitioned path
+	 * @param path - The partitioned path
+	 * @param schemaKey - The schema key of the value
+	 * @returns Whether a value was deleted
+	 */
+	async deletePartitioned<K extends keyof T>(
+		path: string,
+		schemaKey: K,
+	): Promise<boolean> {
+		// Validate the path against partition schema
+		const partitions = this.parsePartitions(path, "write");
+
+		this.getSchema(schemaKey);
+		const s3Key = this.getS3Key(`${path}/${String(schemaKey)}.json`);
+
+		return await this.interceptDelete(
+			s3Key,
+			schemaKey,
+			partitions,
+			async () => {
+				const exists = (await this.headObject(s3Key)) !== null;
+				if (exists) {
+					await this.withLock(`deletePartitioned-${s3Key}`, () =>
+						this.deleteIndexed(s3Key, schemaKey),
+					);
+				}
+
+				const removed = await this.removeCompacted(
+					schemaKey,
+					new Set([this.extractKeyFromS3Key(s3Key)]),
+				);
+				return exists || removed.length > 0;
+			},
+		);
+	}
+
+	/**
+	 * Delete every object matching partition patterns
+	 * Objects are matched as in `findPartitioned` and deleted in batches of
+	 * up to 1000, without taking per-object locks. With middleware, each
+	 * object is deleted through it instead, and those it skips are kept.
+	 * @param partialPartitions - Partial partition specification
+	 * @param schemaKey - Optional schema key to filter by
+	 * @param options - Set dryRun to report matches without deleting them
 	 */
-	async setPartitioned<K extends keyof T>(
-		path: string,
-		schemaKey: K,
-		value: z.infer<T[K]>,
-	): Promise<void> {
-		if (!(this.partitionParser && this.partitionSchema)) {
-			throw new Error("Partition schema not configured");
+	async deleteWhere<K extends keyof T>(
+		partialPartitions: Partial<z.infer<P>>,
+		schemaKey?: K,
+		options: { dryRun?: boolean } = {},
+	): Promise<DeleteWhereReport<T, P>> {
+		const matches = await this.findPartitioned(partialPartitions, schemaKey);
+		if (options.dryRun) {
+			return { deleted: matches, failed: [] };
 		}
 
-		// Validate the path against partition schema
-		const partitions = this.partitionParser.parse(path);
+		return await this.deletePartitionedMatches(matches);
+	}
 
-		// Validate the value against the data schema
-		const schemaForKey = this.schema[schemaKey];
-		if (!schemaForKey) {
-			throw new Error(`No schema defined for key: ${String(schemaKey)}`);
+	/**
+	 * Delete the partitioned objects, including compacted ones, whose
+	 * partitions have expired under the `retention` policies
+	 * Partitions are dated by their year, month, day, hour and minute
+	 * fields. Objects are deleted as by `deleteWhere`.
+	 * @param options - Set dryRun to report expired objects without deleting
+	 * them
+	 */
+	async applyRetention(
+		options: { dryRun?: boolean } = {},
+	): Promise<RetentionReport<T, P>> {
+		const policies = Object.keys(this.retention) as Array<keyof T>;
+		if (policies.length === 0) {
+			throw new NotConfiguredError("Retention not configured");
 		}
-		const validatedValue = schemaForKey.parse(value);
+		this.requirePartitionParser();
 
-		// Construct the full S3 key
-		const s3Key = this.getS3Key(`${path}/${String(schemaKey)}.json`);
-		const lockName = `setPartitioned-${s3Key}`;
-
-		// Use mutex if enabled, otherwise write directly
-		if (this.enableMutex && this.mutex) {
-			await this.mutex.withLock(lockName, async () => {
-				const command = new PutObjectCommand({
-					Bucket: this.bucket,
-					Key: s3Key,
-					Body: JSON.stringify(validatedValue),
-					ContentType: "application/json",
-					Metadata: {
-						// Store partition info in metadata for easier querying
-						partitions: JSON.stringify(partitions),
-						schemaKey: String(schemaKey),
-					},
-				});
+		const now = new Date();
+		const expired: Array<PartitionedKey<P> & { schemaKey: keyof T }> = [];
+		for (const schemaKey of policies) {
+			const policy = this.retention[schemaKey] as RetentionPolicy<z.infer<P>>;
+			for (const match of await this.findPartitioned({}, schemaKey)) {
+				if (isPartitionExpired(policy, match.partitions, now)) {
+					expired.push(match);
+				}
+			}
+		}
 
-				await this.s3Client.send(command);
-			});
-		} else {
-			const command = new PutObjectCommand({
-				Bucket: this.bucket,
-				Key: s3Key,
-				Body: JSON.stringify(validatedValue),
-				ContentType: "application/json",
-				Metadata: {
-					// Store partition info in metadata for easier querying
-					partitions: JSON.stringify(partitions),
-					schemaKey: String(schemaKey),
-				},
-			});
+		const partitions = Array.from(
+			new Set(expired.map(({ key }) => key.slice(0, key.lastIndexOf("/")))),
+		);
+		if (options.dryRun) {
+			return { deleted: expired, failed: [], partitions };
+		}
+
+		return { ...(await this.deletePartitionedMatches(expired)), partitions };
+	}
 
-			await this.s3Client.send(command);
+	private async deletePartitionedMatches(
+		matches: Array<PartitionedKey<P> & { schemaKey: keyof T }>,
+	): Promise<DeleteWhereReport<T, P>> {
+		const { failed, skipped } = await this.interceptDeletes(
+			matches.map((match) => ({
+				s3Key: this.getS3Key(match.key),
+				schemaKey: match.schemaKey,
+				partitions: match.partitions,
+			})),
+		);
+		// Objects that failed or that middleware skipped are kept
+		const kept = new Set([
+			...failed.map((failure) => failure.key),
+			...Array.from(skipped),
+		]);
+
+		// Compacted copies go too, so they do not reappear
+		for (const key of Array.from(
+			new Set(matches.map((match) => match.schemaKey)),
+		)) {
+			await this.removeCompacted(
+				key,
+				new Set(
+					matches
+						.filter((match) => match.schemaKey === key && !kept.has(match.key))
+						.map((match) => match.key),
+				),
+			);
 		}
+
+		return {
+			deleted: matches.filter((match) => !kept.has(match.key)),
+			failed,
+		};
+	}
+
+	// Objects under an internal prefix, which listObjects skips
+	private async listInternal(prefix: string): Promise<StorageObjectInfo[]> {
+		const items: StorageObjectInfo[] = [];
+		let cursor: string | undefined;
+		do {
+			const page = await this.storage.list(prefix, { cursor });
+			items.push(...page.items);
+			cursor = page.cursor;
+		} while (cursor);
+		return items;
+	}
+
+	private async listInternalKeys(prefix: string): Promise<string[]> {
+		return (await this.listInternal(prefix)).map((item) => item.key);
+	}
+
+	// Keys ending in the schema key's file name outside its collection are
+	// partitioned
+	private isPartitionedKey(key: string, schemaKey: keyof T): boolean {
+		return (
+			key.endsWith(`/${String(schemaKey)}.json`) &&
+			!key.startsWith(`${String(schemaKey)}/`)
+		);
+	}
+
+	// Undefined for plain keys and collection documents
+	private getKeyPartitions(
+		key: string,
+		schemaKey: keyof T,
+	): z.infer<P> | undefined {
+		return this.partitionParser && this.isPartitionedKey(key, schemaKey)
+			? this.parsePartitions(key.slice(0, key.lastIndexOf("/")), "read")
+			: undefined;
+	}
+
+	// Partitioned values may have been compacted
+	private async readIndexedEntry<K extends keyof T>(
+		key: string,
+		schemaKey: K,
+	): Promise<ZodBucketEntry<z.infer<T[K]>> | null> {
+		const s3Key = this.getS3Key(key);
+		return this.isPartitionedKey(key, schemaKey)
+			? await this.readPartitionedEntry(s3Key, schemaKey)
+			: await this.readEntry(s3Key, schemaKey);
 	}
 
 	/**
-	 * Get a value using a partitioned path
+	 * Find the values whose indexed field holds a value
+	 * Only the field's pointers under `<prefix>/_index/` are listed. Each
+	 * candidate is read and checked, so pointers left behind by interrupted
+	 * writes are never returned.
+	 * @param schemaKey - The schema key to search
+	 * @param field - A field listed in the `indexes` config
+	 * @param value - The value to look up; one element for "[]" fields
+	 * @param options - Maximum number of reads in flight
+	 * @returns The matching values with their keys, relative to the prefix
 	 */
-	async getPartitioned<K extends keyof T>(
-		path: string,
+	async findBy<K extends keyof T, F extends IndexField<z.infer<T[K]>>>(
 		schemaKey: K,
-	): Promise<{ value: z.infer<T[K]>; partitions: z.infer<P> } | null> {
-		if (!(this.partitionParser && this.partitionSchema)) {
-			throw new Error("Partition schema not configured");
+		field: F,
+		value: IndexValue<z.infer<T[K]>, F>,
+		options: BatchOptions = {},
+	): Promise<Array<{ key: string; value: z.infer<T[K]> }>> {
+		this.getSchema(schemaKey);
+		if (!this.getIndexFields(schemaKey).includes(field)) {
+			throw new NotConfiguredError(
+				`No index defined for ${String(schemaKey)}.${field}`,
+			);
 		}
 
-		// Validate the path against partition schema
-		const partitions = this.partitionParser.parse(path);
+		const encoded = encodeIndexValue(value);
+		const prefix = `${this.getIndexBase(schemaKey)}${field}/${encoded}/`;
+		const keys = (await this.listInternalKeys(prefix)).map((pointer) =>
+			decodeURIComponent(pointer.slice(prefix.length)),
+		);
 
-		const schemaForKey = this.schema[schemaKey];
-		if (!schemaForKey) {
-			throw new Error(`No schema defined for key: ${String(schemaKey)}`);
+		const entries = await mapWithConcurrency(
+			keys,
+			options.concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+			async (key) => {
+				const entry = await this.readIndexedEntry(key, schemaKey);
+				const matches =
+					entry !== null &&
+					getIndexValues(entry.value, field).some(
+						(item) => encodeIndexValue(item) === encoded,
+					);
+				return matches ? { key, value: entry.value } : null;
+			},
+		);
+		return entries.filter(
+			(entry): entry is { key: string; value: z.infer<T[K]> } => entry !== null,
+		);
+	}
+
+	private async addIndexPointers(
+		pointers: Set<string>,
+		report: IndexRebuildReport,
+		key: string,
+		schemaKey: keyof T,
+		read: () => Promise<ZodBucketEntry<unknown> | null>,
+	): Promise<void> {
+		report.scanned++;
+		try {
+			const entry = await read();
+			for (const pointer of this.getPointerKeys(
+				schemaKey,
+				this.getS3Key(key),
+				entry?.value ?? null,
+			)) {
+				pointers.add(pointer);
+			}
+		} catch (error) {
+			report.failed.push({ key, error });
 		}
+	}
 
-		const s3Key = this.getS3Key(`${path}/${String(schemaKey)}.json`);
+	// The pointers of every readable value. Objects are read before
+	// segments, so compacted copies they replaced are skipped.
+	private async collectIndexPointers(
+		report: IndexRebuildReport,
+	): Promise<Set<string>> {
+		const pointers = new Set<string>();
+		const seen = new Set<string>();
 
-		try {
-			const command = new GetObjectCommand({
-				Bucket: this.bucket,
-				Key: s3Key,
+		for await (const item of this.iterate()) {
+			const schemaKey = this.resolveSchemaKey(item.key);
+			if (
+				schemaKey === undefined ||
+				this.getIndexFields(schemaKey).length === 0
+			) {
+				continue;
+			}
+			seen.add(item.key);
+			await this.addIndexPointers(pointers, report, item.key, schemaKey, () =>
+				this.readEntry(this.getS3Key(item.key), schemaKey, false),
+			);
+		}
+
+		const schemaKeys = Object.keys(this.schema).filter(
+			(schemaKey) => this.getIndexFields(schemaKey).length > 0,
+		);
+		for (const match of await this.findCompacted(
+			this.getS3Key("**"),
+			schemaKeys,
+			seen,
+		)) {
+			await this.addIndexPointers(
+				pointers,
+				report,
+				match.key,
+				match.schemaKey,
+				() => this.readCompactedEntry(match.key, match.schemaKey, match),
+			);
+		}
+
+		return pointers;
+	}
+
+	/**
+	 * Rewrite the index pointers from the stored values
+	 * Adds the pointers of objects written before an index was configured or
+	 * by interrupted writes, and deletes pointers that no longer match a
+	 * value. Pointers of objects that cannot be read are kept.
+	 * @param options - Set dryRun to count changes without writing them
+	 */
+	async rebuildIndexes(
+		options: { dryRun?: boolean } = {},
+	): Promise<IndexRebuildReport> {
+		const report: IndexRebuildReport = {
+			scanned: 0,
+			added: 0,
+			removed: 0,
+			failed: [],
+		};
+		const expected = await this.collectIndexPointers(report);
+		const existing = new Set(
+			await this.listInternalKeys(this.getS3Key(INDEX_PREFIX)),
+		);
+		const unreadable = new Set(
+			report.failed.map(({ key }) => encodeURIComponent(key)),
+		);
+
+		const missing = Array.from(expected).filter(
+			(pointer) => !existing.has(pointer),
+		);
+		const stale = Array.from(existing).filter(
+			(pointer) =>
+				!(
+					expected.has(pointer) ||
+					unreadable.has(pointer.slice(pointer.lastIndexOf("/") + 1))
+				),
+		);
+		report.added = missing.length;
+		report.removed = stale.length;
+		if (options.dryRun) {
+			return report;
+		}
+
+		await mapWithConcurrency(missing, DEFAULT_BATCH_CONCURRENCY, (pointer) =>
+			this.storage.put(pointer, new Uint8Array()),
+		);
+		if (stale.length > 0) {
+			const failures = await this.deleteObjects(stale);
+			report.removed -= failures.length;
+			report.failed.push(...failures);
+		}
+		return report;
+	}
+
+	private getSegmentBase(schemaKey: keyof T): string {
+		return this.getS3Key(`${SEGMENT_PREFIX}${String(schemaKey)}/`);
+	}
+
+	// Newest first, so a key compacted twice resolves to its latest copy
+	// Schema keys without compaction have no segments, so they cost no
+	// requests
+	private async loadSegmentIndexes(
+		schemaKey: keyof T,
+	): Promise<LoadedSegmentIndex[]> {
+		if (!this.compaction.includes(schemaKey)) {
+			return [];
+		}
+
+		const s3Keys: string[] = [];
+		let cursor: string | undefined;
+		do {
+			const page = await this.storage.list(this.getSegmentBase(schemaKey), {
+				cursor,
 			});
+			for (const item of page.items) {
+				if (item.key.endsWith(SEGMENT_INDEX_SUFFIX)) {
+					s3Keys.push(item.key);
+				}
+			}
+			cursor = page.cursor;
+		} while (cursor);
 
-			const response = await this.s3Client.send(command);
+		const indexes = await mapWithConcurrency(
+			s3Keys,
+			DEFAULT_BATCH_CONCURRENCY,
+			async (s3Key): Promise<LoadedSegmentIndex | null> => {
+				const cached = this.segmentIndexes.get(s3Key);
+				const object = await this.storage.get(s3Key, {
+					ifNoneMatch: cached?.etag,
+				});
+				if (object === null) {
+					this.segmentIndexes.delete(s3Key);
+					return null;
+				}
+				if (cached && object.notModified) {
+					return { s3Key, ...cached };
+				}
 
-			if (!response.Body) {
-				return null;
+				const loaded = {
+					etag: object.etag,
+					index: this.parseJsonObject<SegmentIndex>(s3Key, object.body),
+				};
+				this.segmentIndexes.set(s3Key, loaded);
+				return { s3Key, ...loaded };
+			},
+		);
+
+		return indexes
+			.filter((index): index is LoadedSegmentIndex => index !== null)
+			.reverse();
+	}
+
+	// Compacted keys matching an S3 key pattern, except those in `seen`
+	private async findCompacted(
+		pattern: string,
+		schemaKeys: Array<keyof T>,
+		seen: Set<string>,
+	): Promise<
+		Array<PartitionedKey<P> & { schemaKey: keyof T } & SegmentLocation>
+	> {
+		const matcher = globToRegExp(pattern);
+		const results: Array<
+			PartitionedKey<P> & { schemaKey: keyof T } & SegmentLocation
+		> = [];
+
+		for (const schemaKey of schemaKeys) {
+			const base = this.getSegmentBase(schemaKey);
+			for (const { index } of await this.loadSegmentIndexes(schemaKey)) {
+				for (const entry of index.entries) {
+					if (!seen.has(entry.key) && matcher.test(this.getS3Key(entry.key))) {
+						seen.add(entry.key);
+						results.push({
+							key: entry.key,
+							partitions: entry.partitions as z.infer<P>,
+							schemaKey,
+							segment: `${base}${index.segment}`,
+							line: entry.line,
+						});
+					}
+				}
 			}
+		}
 
-			const bodyContent = await response.Body.transformToString();
-			const rawValue = JSON.parse(bodyContent);
+		return results;
+	}
 
-			// Validate the retrieved value against the schema
-			const validatedValue = schemaForKey.parse(rawValue);
+	// Segments are decoded once and shared by concurrent reads
+	private readSegment(s3Key: string): Promise<StoredValue | null> {
+		let segment = this.segments.get(s3Key);
+		if (segment === undefined) {
+			segment = this.getStored(s3Key);
+			segment.catch(() => this.segments.delete(s3Key));
+		}
 
-			return {
-				value: validatedValue,
-				partitions,
-			};
-		} catch (error) {
-			if (error instanceof Error && error.name === "NoSuchKey") {
-				return null;
+		this.segments.delete(s3Key);
+		this.segments.set(s3Key, segment);
+		if (this.segments.size > SEGMENT_CACHE_SIZE) {
+			this.segments.delete(this.segments.keys().next().value as string);
+		}
+		return segment;
+	}
+
+	// Reads a partitioned value from its own object, falling back to the
+	// segment it was compacted into
+	private async readPartitionedEntry<K extends keyof T>(
+		s3Key: string,
+		schemaKey: K,
+		writeBack?: boolean,
+	): Promise<ZodBucketEntry<z.infer<T[K]>> | null> {
+		const entry = await this.readEntry(s3Key, schemaKey, writeBack);
+		if (entry !== null) {
+			return entry;
+		}
+
+		// A live object that expired shadows its older compacted value
+		if ((await this.headObject(s3Key)) !== null) {
+			return null;
+		}
+
+		const key = this.extractKeyFromS3Key(s3Key);
+		for (const { index } of await this.loadSegmentIndexes(schemaKey)) {
+			const indexEntry = index.entries.find((item) => item.key === key);
+			if (indexEntry !== undefined) {
+				return await this.readCompactedEntry(key, schemaKey, {
+					segment: `${this.getSegmentBase(schemaKey)}${index.segment}`,
+					line: indexEntry.line,
+				});
 			}
-			if (typeof error === "object" && error !== null && "$metadata" in error) {
-				const awsError = error as { $metadata?: { httpStatusCode?: number } };
-				if (awsError.$metadata?.httpStatusCode === 404) {
-					return null;
+		}
+
+		return null;
+	}
+
+	// Compacted values have no ETag of their own
+	private async readCompactedEntry<K extends keyof T>(
+		key: string,
+		schemaKey: K,
+		location: SegmentLocation,
+	): Promise<ZodBucketEntry<z.infer<T[K]>>> {
+		const segment = await this.readSegment(location.segment);
+		const line = (segment?.value as SegmentLine[] | undefined)?.[location.line];
+		if (!segment || line?.key !== key) {
+			throw new CorruptObjectError(
+				this.extractKeyFromS3Key(location.segment),
+				new Error(`Segment has no line for key: ${key}`),
+			);
+		}
+
+		const { value } = this.migrateValue(schemaKey, {
+			...segment,
+			value: line.value,
+		});
+		return { value: this.validate(key, schemaKey, value, "read") };
+	}
+
+	private async isCompacted(key: string, schemaKey: keyof T): Promise<boolean> {
+		return (await this.loadSegmentIndexes(schemaKey)).some(({ index }) =>
+			index.entries.some((entry) => entry.key === key),
+		);
+	}
+
+	// Removes the compacted copies of keys per schema key, and returns the
+	// errors of the keys that could not be removed
+	private async removeCompactedKeys(
+		items: Array<{ key: string; schemaKey: keyof T }>,
+	): Promise<Map<string, unknown>> {
+		const errors = new Map<string, unknown>();
+		for (const schemaKey of Array.from(
+			new Set(items.map((item) => item.schemaKey)),
+		)) {
+			const keys = items
+				.filter((item) => item.schemaKey === schemaKey)
+				.map((item) => item.key);
+			try {
+				await this.removeCompacted(schemaKey, new Set(keys));
+			} catch (error) {
+				for (const key of keys) {
+					errors.set(key, error);
 				}
 			}
-			throw error;
 		}
+		return errors;
 	}
 
 	/**
-	 * Find objects matching partition patterns
-	 * @param partialPartitions - Partial partition specification
-	 * @param schemaKey - Optional schema key to filter by
+	 * Drop keys from the segment indexes that list them
+	 * Indexes are rewritten under the compaction lock and with ifMatch, and
+	 * a segment left empty is deleted along with its index.
+	 * @returns The keys that were removed
 	 */
-	async findPartitioned<K extends keyof T>(
-		partialPartitions: Partial<z.infer<P>>,
-		schemaKey?: K,
-	): Promise<Array<PartitionedKey<P> & { schemaKey: keyof T }>> {
-		if (!(this.partitionParser && this.partitionSchema)) {
-			throw new Error("Partition schema not configured");
+	private async removeCompacted(
+		schemaKey: keyof T,
+		keys: Set<string>,
+	): Promise<string[]> {
+		const isListed = (indexes: LoadedSegmentIndex[]) =>
+			indexes.some(({ index }) =>
+				index.entries.some((entry) => keys.has(entry.key)),
+			);
+		if (
+			keys.size === 0 ||
+			!isListed(await this.loadSegmentIndexes(schemaKey))
+		) {
+			return [];
 		}
 
-		// Create a glob pattern for the partial partitions
-		const globPattern =
-			this.partitionParser.createGlobPattern(partialPartitions);
-		const searchPattern = schemaKey
-			? `${globPattern}/${String(schemaKey)}.json`
-			: `${globPattern}/*.json`;
-
-		// Use rehiver to find matching objects
-		const matchingObjects = await this.rehiver.findMatchingObjects({
-			bucket: this.bucket,
-			patterns: [this.getS3Key(searchPattern)],
-		});
+		const base = this.getSegmentBase(schemaKey);
+		return await this.withLock(`compact-${base}`, () =>
+			this.rewriteSegmentIndexes(schemaKey, keys),
+		);
+	}
 
-		const results: Array<PartitionedKey<P> & { schemaKey: keyof T }> = [];
+	private async rewriteSegmentIndexes(
+		schemaKey: keyof T,
+		keys: Set<string>,
+	): Promise<string[]> {
+		const base = this.getSegmentBase(schemaKey);
+		const removed: string[] = [];
 
-		for (const objKey of matchingObjects) {
-			try {
-				// Extract the relative path from the S3 key
-				const relativePath = this.extractKeyFromS3Key(objKey);
+		for (const { s3Key, etag, index } of await this.loadSegmentIndexes(
+			schemaKey,
+		)) {
+			const entries = index.entries.filter((entry) => !keys.has(entry.key));
+			if (entries.length === index.entries.length) {
+				continue;
+			}
 
-				// Parse the path to extract partitions and schema key
-				const pathParts = relativePath.split("/");
-				const fileName = pathParts.pop();
-				const partitionPath = pathParts.join("/");
-				const extractedSchemaKey = fileName?.replace(".json", "");
+			removed.push(
+				...index.entries
+					.filter((entry) => keys.has(entry.key))
+					.map((entry) => entry.key),
+			);
+			if (entries.length === 0) {
+				await this.storage.delete(s3Key);
+				await this.storage.delete(`${base}${index.segment}`);
+			} else {
+				await this.storage.put(
+					s3Key,
+					textEncoder.encode(JSON.stringify({ ...index, entries })),
+					{ contentType: "application/json", ifMatch: etag },
+				);
+			}
+		}
 
-				if (!(extractedSchemaKey && extractedSchemaKey in this.schema)) {
-					// Skip if not a valid schema key
-					continue;
+		return removed;
+	}
+
+	// Reads the objects to compact, reporting those that cannot be read
+	private async readForCompaction<K extends keyof T>(
+		matches: Array<PartitionedKey<P> & { schemaKey: keyof T }>,
+		schemaKey: K,
+		report: CompactionReport<T, P>,
+	): Promise<
+		Array<{
+			match: PartitionedKey<P> & { schemaKey: keyof T };
+			entry: ZodBucketEntry<z.infer<T[K]>>;
+		}>
+	> {
+		const entries = await mapWithConcurrency(
+			matches,
+			DEFAULT_BATCH_CONCURRENCY,
+			async (match) => {
+				try {
+					const entry = await this.readEntry(
+						this.getS3Key(match.key),
+						schemaKey,
+						false,
+					);
+					return entry === null ? null : { match, entry };
+				} catch (error) {
+					report.failed.push({ key: match.key, error });
+					return null;
 				}
+			},
+		);
 
-				// Validate the partition path
-				const partitions = this.partitionParser.parse(partitionPath);
+		return entries.filter((entry) => entry !== null);
+	}
 
-				results.push({
-					key: relativePath,
-					partitions,
-					schemaKey: extractedSchemaKey as keyof T,
-				});
-			} catch (error) {
-				// Skip objects that don't match the partition schema
-			}
+	// Deletes the originals still holding the value that was compacted. Each
+	// delete holds the write lock and is conditional on the ETag read, so a
+	// value written since is kept.
+	private async deleteCompacted(
+		compacted: Array<{
+			match: PartitionedKey<P>;
+			entry: ZodBucketEntry<unknown>;
+		}>,
+		report: CompactionReport<T, P>,
+	): Promise<void> {
+		await mapWithConcurrency(
+			compacted,
+			DEFAULT_BATCH_CONCURRENCY,
+			async ({ match, entry }) => {
+				const s3Key = this.getS3Key(match.key);
+				try {
+					await this.withLock(`setPartitioned-${s3Key}`, () =>
+						this.deleteObject(s3Key, { ifMatch: entry.etag }),
+					);
+				} catch (error) {
+					if (error instanceof ConflictError) {
+						report.skipped.push(match.key);
+					} else {
+						report.failed.push({ key: match.key, error });
+					}
+				}
+			},
+		);
+	}
+
+	/**
+	 * Compact the partitioned objects of a schema key into one segment
+	 * Matching objects are read and validated, then written as a single
+	 * NDJSON segment (gzipped by default) with an index listing its keys.
+	 * The originals are deleted afterwards, except those rewritten in the
+	 * meantime. Reads, queries and deletes find compacted values
+	 * transparently; an object written later for the same key takes
+	 * precedence over the segment.
+	 * Runs under a lock per schema key when mutex is enabled.
+	 * @param partialPartitions - Partial partition specification
+	 * @param schemaKey - The schema key to compact, listed in `compaction`
+	 * @param options - Compression, and dryRun to report without writing
+	 */
+	async compact<K extends keyof T>(
+		partialPartitions: Partial<z.infer<P>>,
+		schemaKey: K,
+		options: CompactOptions = {},
+	): Promise<CompactionReport<T, P>> {
+		this.getSchema(schemaKey);
+		if (!this.compaction.includes(schemaKey)) {
+			throw new NotConfiguredError(
+				`Compaction not configured for schema key: ${String(schemaKey)}`,
+			);
 		}
+		const base = this.getSegmentBase(schemaKey);
 
-		return results;
+		return await this.withLock(`compact-${base}`, async () => {
+			const report: CompactionReport<T, P> = {
+				compacted: [],
+				skipped: [],
+				failed: [],
+			};
+			const compacted = await this.readForCompaction(
+				await this.findPartitionedObjects(partialPartitions, schemaKey),
+				schemaKey,
+				report,
+			);
+			report.compacted = compacted.map(({ match }) => match);
+			if (options.dryRun || compacted.length === 0) {
+				return report;
+			}
+
+			const name = ulid();
+			const gzipped = options.gzip !== false;
+			const segment = `${name}.ndjson${gzipped ? ".gz" : ""}`;
+			const lines: SegmentLine[] = compacted.map(({ match, entry }) => ({
+				key: match.key,
+				partitions: match.partitions,
+				value: entry.value,
+			}));
+			const index: SegmentIndex = {
+				segment,
+				entries: lines.map((line, position) => ({
+					key: line.key,
+					partitions: line.partitions,
+					line: position,
+				})),
+			};
+
+			// The index is written last, so it never lists a missing segment
+			await this.putValue(`${base}${segment}`, schemaKey, lines, undefined, {
+				serializer: gzipped ? gzip(ndjsonSerializer) : ndjsonSerializer,
+			});
+			await this.storage.put(
+				`${base}${name}${SEGMENT_INDEX_SUFFIX}`,
+				textEncoder.encode(JSON.stringify(index)),
+				{ contentType: "application/json" },
+			);
+
+			await this.deleteCompacted(compacted, report);
+			report.segment = this.extractKeyFromS3Key(`${base}${segment}`);
+			return report;
+		});
 	}
 
 	/**
@@ -501,13 +4493,21 @@ export class ZodBucket<T extends SchemaMap, P extends ZodType = ZodType> {
 	}
 
 	/**
-	 * Get the S3Mutex instance for advanced locking operations
+	 * Get the mutex instance for advanced locking operations
+	 * An S3Mutex on S3 storage and a StorageMutex on other backends
 	 * Only available when mutex is enabled
 	 */
-	getMutex(): S3Mutex | undefined {
+	getMutex(): S3Mutex | StorageMutex | undefined {
 		return this.mutex;
 	}
 
+	/**
+	 * Get the storage backend objects are read from and written to
+	 */
+	getStorage(): StorageAdapter {
+		return this.backend;
+	}
+
 	/**
 	 * Clean up stale locks in the mutex system
 	 * Only works when mutex is enabled
@@ -517,15 +4517,112 @@ export class ZodBucket<T extends SchemaMap, P extends ZodType = ZodType> {
 		dryRun?: boolean;
 	}) {
 		if (!this.mutex) {
-			throw new Error("Mutex not enabled. Cannot clean up locks.");
+			throw new NotConfiguredError("Mutex not enabled. Cannot clean up locks.");
 		}
 
-		return await this.mutex.cleanupStaleLocks({
-			prefix: `${this.prefix ? `${this.prefix}/` : ""}locks/`,
+		const mutex: Mutex = this.mutex;
+		return await mutex.cleanupStaleLocks({
+			prefix: this.lockPrefix,
 			...options,
 		});
 	}
 
+	/**
+	 * Delete the objects under the prefix whose ttl has passed
+	 * Expired objects already read as null; this frees their storage and
+	 * index pointers.
+	 * @param options - Set dryRun to count expired objects without deleting
+	 * them, and concurrency to bound the metadata requests in flight
+	 */
+	async sweepExpired(
+		options: { dryRun?: boolean; concurrency?: number } = {},
+	): Promise<SweepReport> {
+		const now = Date.now();
+		const report: SweepReport = {
+			scanned: 0,
+			expired: 0,
+			deleted: 0,
+			failed: [],
+		};
+
+		const keys: string[] = [];
+		for await (const item of this.iterate()) {
+			keys.push(item.key);
+		}
+
+		await mapWithConcurrency(
+			keys,
+			options.concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+			async (key) => {
+				report.scanned++;
+				try {
+					const s3Key = this.getS3Key(key);
+					const head = await this.headObject(s3Key);
+					if (head === null || !isExpired(head.metadata, now)) {
+						return;
+					}
+
+					report.expired++;
+					if (options.dryRun) {
+						return;
+					}
+					const schemaKey =
+						this.resolveSchemaKey(key) ?? head.metadata.schemakey;
+					const deleted = await this.interceptDelete(
+						s3Key,
+						schemaKey,
+						this.getKeyPartitions(key, schemaKey),
+						() => this.deleteExpired(key, schemaKey),
+					);
+					if (deleted) {
+						report.deleted++;
+					}
+				} catch (error) {
+					report.failed.push({ key, error });
+				}
+			},
+		);
+
+		return report;
+	}
+
+	// Checks the expiry again under the lock delete takes, and deletes only
+	// the object checked, so a value written since the scan is kept
+	private async deleteExpired(
+		key: string,
+		schemaKey: keyof T,
+	): Promise<boolean> {
+		const s3Key = this.getS3Key(key);
+		const lockName = this.isPartitionedKey(key, schemaKey)
+			? `deletePartitioned-${s3Key}`
+			: `delete-${s3Key}`;
+
+		return await this.withLock(lockName, async () => {
+			const head = await this.headObject(s3Key);
+			if (head === null || !isExpired(head.metadata)) {
+				return false;
+			}
+			try {
+				return await this.deleteIndexed(s3Key, schemaKey, {
+					ifMatch: head.etag,
+				});
+			} catch (error) {
+				if (error instanceof ConflictError) {
+					return false;
+				}
+				throw error;
+			}
+		});
+	}
+
+	/**
+	 * Get the number of reads answered from the cache and from storage
+	 * All zero when no cache is configured
+	 */
+	getCacheStats(): CacheStats {
+		return { ...this.cacheStats };
+	}
+
 	/**
 	 * Check if mutex locking is enabled
 	 */
@@ -0,0 +1,78 @@
+// Fields holding arrays, which are indexed by each of their elements
+type ArrayField<V> = {
+	[F in keyof V]-?: NonNullable<V[F]> extends readonly unknown[] ? F : never;
+}[keyof V];
+
+/**
+ * A field to index: a top-level field of the value, or an array field
+ * followed by "[]" to index each element
+ */
+export type IndexField<V> = (keyof V & string) | `${ArrayField<V> & string}[]`;
+
+// The type of the values looked up through an index field
+export type IndexValue<V, F> = F extends `${infer A}[]`
+	? A extends keyof V
+		? NonNullable<V[A]> extends readonly (infer E)[]
+			? E
+			: never
+		: never
+	: F extends keyof V
+		? NonNullable<V[F]>
+		: never;
+
+export type IndexRebuildReport = {
+	// Objects whose pointers were computed
+	scanned: number;
+	// Pointers written because they were missing
+	added: number;
+	// Pointers deleted because they no longer matched a value
+	removed: number;
+	failed: Array<{ key: string; error: unknown }>;
+};
+
+const ARRAY_FIELD_SUFFIX = "[]";
+
+/**
+ * The values of a field, or of each element of an array field
+ * Missing and null values are not indexed.
+ */
+export const getIndexValues = (value: unknown, field: string): unknown[] => {
+	if (typeof value !== "object" || value === null) {
+		return [];
+	}
+
+	const isArrayField = field.endsWith(ARRAY_FIELD_SUFFIX);
+	const fieldValue = (value as Record<string, unknown>)[
+		isArrayField ? field.slice(0, -ARRAY_FIELD_SUFFIX.length) : field
+	];
+	const values = isArrayField
+		? Array.isArray(fieldValue)
+			? fieldValue
+			: []
+		: [fieldValue];
+
+	return values.filter((item) => item !== undefined && item !== null);
+};
+
+/**
+ * Encode a value as a single key segment
+ * Values are JSON-encoded first so the string "1" and the number 1 get
+ * different pointers.
+ */
+export const encodeIndexValue = (value: unknown): string =>
+	encodeURIComponent(JSON.stringify(value));
+
+/**
+ * The pointer paths for a value, as `<field>/<encoded value>/`, for every
+ * indexed field
+ */
+export const getIndexPaths = (value: unknown, fields: string[]): string[] =>
+	Array.from(
+		new Set(
+			fields.flatMap((field) =>
+				getIndexValues(value, field).map(
+					(item) => `${field}/${encodeIndexValue(item)}/`,
+				),
+			),
+		),
+	);
@@ -0,0 +1,288 @@
+import { randomUUID } from "node:crypto";
+import { ConflictError } from "./errors";
+import type { StorageAdapter } from "./storage";
+
+export type StorageMutexOptions = {
+	// Prefix for lock objects (default: "locks/")
+	keyPrefix?: string;
+	// How long a lock is held before others may take it over (default: 60s)
+	lockTimeoutMs?: number;
+	// Attempts after the first before giving up (default: 5)
+	maxRetries?: number;
+	// Delay before the first retry, doubled on each attempt (default: 200ms)
+	retryDelayMs?: number;
+	// Upper bound for the retry delay (default: 5s)
+	maxRetryDelayMs?: number;
+	// Randomize retry delays so waiters do not retry in step (default: true)
+	useJitter?: boolean;
+};
+
+export type CleanupStaleLocksOptions = {
+	prefix?: string;
+	// Also treat locks acquired before this timestamp (ms) as stale
+	olderThan?: number;
+	dryRun?: boolean;
+};
+
+export type CleanupStaleLocksResult = {
+	total: number;
+	stale: number;
+	cleaned: number;
+};
+
+// The locking operations ZodBucket relies on, shared with S3Mutex
+export interface Mutex {
+	withLock<R>(lockName: string, fn: () => Promise<R>): Promise<R | null>;
+	cleanupStaleLocks(
+		options?: CleanupStaleLocksOptions,
+	): Promise<CleanupStaleLocksResult>;
+}
+
+type LockRecord = {
+	owner: string;
+	acquiredAt: number;
+	expiresAt: number;
+};
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const sleep = (ms: number) =>
+	new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * A mutex built on a storage backend's conditional writes, for backends
+ * that s3-mutex cannot use
+ * A lock is an object created with `ifNoneMatch`; an expired lock is taken
+ * over with `ifMatch` on its ETag so only one waiter wins.
+ */
+export class StorageMutex implements Mutex {
+	private readonly storage: StorageAdapter;
+	private readonly keyPrefix: string;
+	private readonly lockTimeoutMs: number;
+	private readonly maxRetries: number;
+	private readonly retryDelayMs: number;
+	private readonly maxRetryDelayMs: number;
+	private readonly useJitter: boolean;
+	// Owner tokens of the locks held through acquireLock
+	private readonly heldLocks = new Map<string, string>();
+
+	constructor(storage: StorageAdapter, options: StorageMutexOptions = {}) {
+		this.storage = storage;
+		this.keyPrefix = options.keyPrefix ?? "locks/";
+		this.lockTimeoutMs = options.lockTimeoutMs ?? 60000;
+		this.maxRetries = options.maxRetries ?? 5;
+		this.retryDelayMs = options.retryDelayMs ?? 200;
+		this.maxRetryDelayMs = options.maxRetryDelayMs ?? 5000;
+		this.useJitter = options.useJitter !== false;
+	}
+
+	private getRetryDelay(attempt: number): number {
+		const delay = Math.min(
+			this.retryDelayMs * 2 ** attempt,
+			this.maxRetryDelayMs,
+		);
+		return this.useJitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+	}
+
+	private getLockKey(lockName: string): string {
+		return `${this.keyPrefix}${lockName}.lock`;
+	}
+
+	// Unreadable lock objects count as expired
+	private async readLock(
+		key: string,
+	): Promise<{ lock: LockRecord; etag?: string } | null> {
+		const object = await this.storage.get(key);
+		if (object === null) {
+			return null;
+		}
+
+		try {
+			return {
+				lock: JSON.parse(textDecoder.decode(object.body)),
+				etag: object.etag,
+			};
+		} catch {
+			return {
+				lock: { owner: "", acquiredAt: 0, expiresAt: 0 },
+				etag: object.etag,
+			};
+		}
+	}
+
+	// Deletes a lock only if it is still the object that was read, so a lock
+	// taken over in the meantime is kept
+	private async deleteLock(key: string, etag?: string): Promise<boolean> {
+		try {
+			await this.storage.delete(key, { ifMatch: etag });
+			return true;
+		} catch (error) {
+			if (error instanceof ConflictError) {
+				return false;
+			}
+			throw error;
+		}
+	}
+
+	private async tryAcquire(
+		key: string,
+		owner: string,
+		timeoutMs: number,
+	): Promise<boolean> {
+		const now = Date.now();
+		const body = textEncoder.encode(
+			JSON.stringify({ owner, acquiredAt: now, expiresAt: now + timeoutMs }),
+		);
+		const write = async (options: { ifMatch?: string; ifNoneMatch?: "*" }) => {
+			try {
+				await this.storage.put(key, body, {
+					contentType: "application/json",
+					...options,
+				});
+				return true;
+			} catch (error) {
+				if (error instanceof ConflictError) {
+					return false;
+				}
+				throw error;
+			}
+		};
+
+		if (await write({ ifNoneMatch: "*" })) {
+			return true;
+		}
+
+		const existing = await this.readLock(key);
+		if (existing === null || existing.lock.expiresAt > now) {
+			return false;
+		}
+		return await write({ ifMatch: existing.etag });
+	}
+
+	// Returns the owner token of this acquisition, or null when the lock
+	// was not acquired
+	private async acquire(
+		lockName: string,
+		timeoutMs = this.lockTimeoutMs,
+	): Promise<string | null> {
+		const key = this.getLockKey(lockName);
+		const owner = randomUUID();
+
+		for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+			if (await this.tryAcquire(key, owner, timeoutMs)) {
+				return owner;
+			}
+			if (attempt < this.maxRetries) {
+				await sleep(this.getRetryDelay(attempt));
+			}
+		}
+
+		return null;
+	}
+
+	// Deletes the lock only while it still belongs to `owner`
+	private async release(lockName: string, owner: string): Promise<boolean> {
+		const key = this.getLockKey(lockName);
+		const existing = await this.readLock(key);
+		if (existing?.lock.owner !== owner) {
+			return false;
+		}
+
+		return await this.deleteLock(key, existing.etag);
+	}
+
+	/**
+	 * Acquire a lock, retrying with backoff while another owner holds it
+	 * @returns Whether the lock was acquired
+	 */
+	async acquireLock(
+		lockName: string,
+		timeoutMs = this.lockTimeoutMs,
+	): Promise<boolean> {
+		const owner = await this.acquire(lockName, timeoutMs);
+		if (owner === null) {
+			return false;
+		}
+		this.heldLocks.set(lockName, owner);
+		return true;
+	}
+
+	/**
+	 * Release a lock acquired with `acquireLock` on this instance
+	 * A lock that expired and was taken over by another owner is left alone
+	 * @returns Whether the lock was released
+	 */
+	async releaseLock(lockName: string): Promise<boolean> {
+		const owner = this.heldLocks.get(lockName);
+		if (owner === undefined) {
+			return false;
+		}
+		this.heldLocks.delete(lockName);
+		return await this.release(lockName, owner);
+	}
+
+	/**
+	 * Run a function while holding a lock
+	 * @returns The function's result, or null when the lock was not acquired
+	 */
+	async withLock<R>(
+		lockName: string,
+		fn: () => Promise<R>,
+		timeoutMs?: number,
+	): Promise<R | null> {
+		// Each call keeps its own owner token, so a call whose lock expired
+		// cannot release the lock a later call took over
+		const owner = await this.acquire(lockName, timeoutMs);
+		if (owner === null) {
+			return null;
+		}
+
+		try {
+			return await fn();
+		} finally {
+			await this.release(lockName, owner);
+		}
+	}
+
+	/**
+	 * Delete expired locks, left behind by processes that stopped while
+	 * holding them
+	 */
+	async cleanupStaleLocks(
+		options: CleanupStaleLocksOptions = {},
+	): Promise<CleanupStaleLocksResult> {
+		const prefix = options.prefix ?? this.keyPrefix;
+		const now = Date.now();
+		const result: CleanupStaleLocksResult = { total: 0, stale: 0, cleaned: 0 };
+
+		let cursor: string | undefined;
+		do {
+			const page = await this.storage.list(prefix, { cursor });
+			for (const item of page.items) {
+				result.total++;
+
+				const existing = await this.readLock(item.key);
+				const stale =
+					existing !== null &&
+					(existing.lock.expiresAt <= now ||
+						(options.olderThan !== undefined &&
+							existing.lock.acquiredAt < options.olderThan));
+				if (!stale) {
+					continue;
+				}
+
+				result.stale++;
+				if (
+					!options.dryRun &&
+					(await this.deleteLock(item.key, existing.etag))
+				) {
+					result.cleaned++;
+				}
+			}
+			cursor = page.cursor;
+		} while (cursor);
+
+		return result;
+	}
+}
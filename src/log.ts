@@ -0,0 +1,261 @@
+import { mapWithConcurrency } from "./concurrency";
+import { ulid } from "./ulid";
+
+export const TIME_PARTITION_FIELDS = [
+	"year",
+	"month",
+	"day",
+	"hour",
+	"minute",
+] as const;
+
+// The size of the time partitions a log groups its records in
+export type LogGranularity = (typeof TIME_PARTITION_FIELDS)[number];
+
+export type AppendLogOptions = {
+	// Must be the same for every writer and reader of a log (default: "hour")
+	granularity?: LogGranularity;
+	// Buffered records that trigger a flush (default: 100)
+	maxBatchSize?: number;
+	// Longest time a record stays buffered, in ms (default: 1000)
+	flushInterval?: number;
+	// Objects read at once by readRange (default: 10)
+	concurrency?: number;
+	// Called when a timed flush fails; its records stay buffered and are
+	// written by the next flush
+	onError?: (error: unknown) => void;
+};
+
+export type LogRecord<V> = {
+	// A ULID, which sorts by the record's timestamp
+	id: string;
+	timestamp: Date;
+	value: V;
+};
+
+// A record as stored, in the array that makes up a batch object
+export type StoredLogRecord = {
+	id: string;
+	timestamp: number;
+	value: unknown;
+};
+
+// Where a log keeps its batches
+export interface LogStore<V> {
+	validate(value: V): V;
+	// Writes a batch as a new object called `name` in the partition
+	write(
+		partition: string,
+		name: string,
+		records: StoredLogRecord[],
+	): Promise<void>;
+	// Yields the objects in `from` and later partitions, in key order
+	list(from: string): AsyncGenerator<{ key: string; partition: string }>;
+	read(key: string): Promise<LogRecord<V>[]>;
+}
+
+/**
+ * Format the UTC time partition a date falls in, e.g.
+ * "year=2024/month=03/day=09/hour=14"
+ * Fields are zero-padded so partitions sort in time order.
+ */
+export const getTimePartition = (
+	date: Date,
+	granularity: LogGranularity,
+): string => {
+	const values = [
+		date.getUTCFullYear(),
+		date.getUTCMonth() + 1,
+		date.getUTCDate(),
+		date.getUTCHours(),
+		date.getUTCMinutes(),
+	];
+
+	return TIME_PARTITION_FIELDS.slice(
+		0,
+		TIME_PARTITION_FIELDS.indexOf(granularity) + 1,
+	)
+		.map(
+			(field, index) =>
+				`${field}=${String(values[index]).padStart(index === 0 ? 4 : 2, "0")}`,
+		)
+		.join("/");
+};
+
+// Records written together as one object, named after the earliest
+type LogBatch = {
+	partition: string;
+	name: string;
+	records: StoredLogRecord[];
+};
+
+const compareRecords = <V>(a: LogRecord<V>, b: LogRecord<V>): number =>
+	a.timestamp.getTime() - b.timestamp.getTime() || (a.id < b.id ? -1 : 1);
+
+/**
+ * An append-only log of typed records, stored in time partitions
+ * Appended records are buffered and written in batches. Every batch is a
+ * new object, so concurrent writers never overwrite each other.
+ */
+export class AppendLog<V> {
+	private readonly store: LogStore<V>;
+	private readonly granularity: LogGranularity;
+	private readonly maxBatchSize: number;
+	private readonly flushInterval: number;
+	private readonly concurrency: number;
+	private readonly onError?: (error: unknown) => void;
+	private buffer: StoredLogRecord[] = [];
+	// Batches that failed to write. They are retried unchanged, never
+	// merged with newer records, since their object may already exist.
+	private failedBatches: LogBatch[] = [];
+	private timer?: ReturnType<typeof setTimeout>;
+	// Batches are written one flush at a time
+	private flushing: Promise<void> = Promise.resolve();
+
+	constructor(store: LogStore<V>, options: AppendLogOptions = {}) {
+		this.store = store;
+		this.granularity = options.granularity ?? "hour";
+		this.maxBatchSize = options.maxBatchSize ?? 100;
+		this.flushInterval = options.flushInterval ?? 1000;
+		this.concurrency = options.concurrency ?? 10;
+		this.onError = options.onError;
+	}
+
+	// Records appended but not yet written
+	get buffered(): number {
+		return this.failedBatches.reduce(
+			(total, batch) => total + batch.records.length,
+			this.buffer.length,
+		);
+	}
+
+	/**
+	 * Validate a value and buffer it for the next flush
+	 * @param value - The record's value
+	 * @param timestamp - When the record happened (default: now)
+	 */
+	async append(value: V, timestamp = new Date()): Promise<LogRecord<V>> {
+		const validated = this.store.validate(value);
+		const record = {
+			id: ulid(timestamp.getTime()),
+			timestamp: timestamp.getTime(),
+			value: validated,
+		};
+		this.buffer.push(record);
+
+		if (this.buffer.length >= this.maxBatchSize) {
+			await this.flush();
+		} else if (this.timer === undefined) {
+			this.timer = setTimeout(() => {
+				this.timer = undefined;
+				this.flush().catch((error) => this.onError?.(error));
+			}, this.flushInterval);
+		}
+
+		return { id: record.id, timestamp, value: validated };
+	}
+
+	/**
+	 * Write every buffered record
+	 * Records whose batch fails to write stay buffered and the error is
+	 * thrown. The next flush retries that batch as it was.
+	 */
+	async flush(): Promise<void> {
+		if (this.timer !== undefined) {
+			clearTimeout(this.timer);
+			this.timer = undefined;
+		}
+
+		const records = this.buffer;
+		this.buffer = [];
+		const write = this.flushing.then(() => this.write(records));
+		this.flushing = write.catch(() => undefined);
+		await write;
+	}
+
+	// Flush the remaining records; call before dropping the log
+	async close(): Promise<void> {
+		await this.flush();
+	}
+
+	// One batch per time partition, named after its earliest record
+	private toBatches(records: StoredLogRecord[]): LogBatch[] {
+		const partitions = new Map<string, StoredLogRecord[]>();
+		for (const record of records) {
+			const partition = getTimePartition(
+				new Date(record.timestamp),
+				this.granularity,
+			);
+			partitions.set(partition, [...(partitions.get(partition) ?? []), record]);
+		}
+
+		return Array.from(partitions).map(([partition, batch]) => {
+			batch.sort((a, b) => a.timestamp - b.timestamp || (a.id < b.id ? -1 : 1));
+			return { partition, name: batch[0].id, records: batch };
+		});
+	}
+
+	// Failed batches go first, as they were
+	private async write(records: StoredLogRecord[]): Promise<void> {
+		const batches = [...this.failedBatches, ...this.toBatches(records)];
+		this.failedBatches = [];
+
+		let failure: unknown;
+		for (const batch of batches) {
+			try {
+				await this.store.write(batch.partition, batch.name, batch.records);
+			} catch (error) {
+				this.failedBatches.push(batch);
+				failure = error;
+			}
+		}
+
+		if (this.failedBatches.length > 0) {
+			throw failure;
+		}
+	}
+
+	private async readPartition(
+		keys: string[],
+		from: Date,
+		to: Date,
+	): Promise<LogRecord<V>[]> {
+		const batches = await mapWithConcurrency(keys, this.concurrency, (key) =>
+			this.store.read(key),
+		);
+
+		return batches
+			.flat()
+			.filter((record) => record.timestamp >= from && record.timestamp < to)
+			.sort(compareRecords);
+	}
+
+	/**
+	 * Read the records from `from` (inclusive) up to `to` (exclusive), in
+	 * time order
+	 * Only flushed records are read. Each record is validated against the
+	 * schema, and a partition's objects are read together, so memory use is
+	 * bounded by the largest partition.
+	 */
+	async *readRange(from: Date, to: Date): AsyncGenerator<LogRecord<V>> {
+		const last = getTimePartition(to, this.granularity);
+		let partition: string | undefined;
+		let keys: string[] = [];
+
+		for await (const item of this.store.list(
+			getTimePartition(from, this.granularity),
+		)) {
+			if (item.partition > last) {
+				break;
+			}
+			if (item.partition !== partition) {
+				yield* await this.readPartition(keys, from, to);
+				partition = item.partition;
+				keys = [];
+			}
+			keys.push(item.key);
+		}
+
+		yield* await this.readPartition(keys, from, to);
+	}
+}
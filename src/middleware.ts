@@ -0,0 +1,110 @@
+import { ZodBucketError } from "./errors";
+
+export type OperationName = "get" | "set" | "delete";
+
+/**
+ * What middleware sees of an operation, for any schema key
+ * Narrow on `schemaKey` to get the type of `value`.
+ */
+export type OperationContext<V, P> = {
+	[K in keyof V]: {
+		readonly operation: OperationName;
+		readonly schemaKey: K;
+		// Key relative to the bucket prefix
+		readonly key: string;
+		// The partitions of a partitioned key, undefined for plain keys
+		readonly partitions: P | undefined;
+		// set: the value to write, validated once every middleware called
+		// `next`, then replaced by the validated value.
+		// get: null until `next` resolves with the value read, or null when
+		// it does not exist.
+		// delete: null
+		value: V[K] | null;
+	};
+}[keyof V];
+
+/**
+ * Runs around an operation; `next` runs the remaining middleware and then
+ * the operation itself
+ * Middleware that returns without calling `next` skips the operation.
+ */
+export type Middleware<V, P> = (
+	context: OperationContext<V, P>,
+	next: () => Promise<void>,
+) => Promise<void>;
+
+// Returning (or resolving to) false from a before hook skips the operation
+export type BeforeHook<V, P> = (context: OperationContext<V, P>) => unknown;
+
+export type AfterHook<V, P> = (
+	context: OperationContext<V, P>,
+) => void | Promise<void>;
+
+export type Hooks<V, P> = {
+	beforeGet?: BeforeHook<V, P>;
+	afterGet?: AfterHook<V, P>;
+	beforeSet?: BeforeHook<V, P>;
+	afterSet?: AfterHook<V, P>;
+	beforeDelete?: BeforeHook<V, P>;
+	afterDelete?: AfterHook<V, P>;
+	// Called with any error of an operation or its hooks and middleware,
+	// before it is rethrown
+	onError?: (
+		error: unknown,
+		context: OperationContext<V, P>,
+	) => void | Promise<void>;
+};
+
+const HOOK_NAMES = {
+	get: { before: "beforeGet", after: "afterGet" },
+	set: { before: "beforeSet", after: "afterSet" },
+	delete: { before: "beforeDelete", after: "afterDelete" },
+} as const;
+
+// Runs hooks as the outermost middleware
+export const hooksMiddleware =
+	<V, P>(hooks: Hooks<V, P>): Middleware<V, P> =>
+	async (context, next) => {
+		const names = HOOK_NAMES[context.operation];
+		try {
+			if ((await hooks[names.before]?.(context)) === false) {
+				return;
+			}
+			await next();
+			await hooks[names.after]?.(context);
+		} catch (error) {
+			await hooks.onError?.(error, context);
+			throw error;
+		}
+	};
+
+/**
+ * Run an operation through middleware, first to last
+ * Resolves to the operation's result, or undefined when middleware skipped
+ * it.
+ */
+export const runMiddleware = async <V, P, R>(
+	middleware: Middleware<V, P>[],
+	context: OperationContext<V, P>,
+	operation: () => Promise<R>,
+): Promise<R | undefined> => {
+	let result: R | undefined;
+	const dispatch = async (index: number): Promise<void> => {
+		if (index === middleware.length) {
+			result = await operation();
+			return;
+		}
+
+		let called = false;
+		await middleware[index](context, async () => {
+			if (called) {
+				throw new ZodBucketError("next() called more than once");
+			}
+			called = true;
+			await dispatch(index + 1);
+		});
+	};
+
+	await dispatch(0);
+	return result;
+};
@@ -0,0 +1,312 @@
+import { mapWithConcurrency } from "./concurrency";
+
+// An object matched by a query, before its value is read
+export type QueryMatch<Parts> = {
+	// Key relative to the bucket prefix
+	key: string;
+	// The partition path the object is stored under
+	path: string;
+	partitions: Parts;
+};
+
+export type QueryRow<V, Parts> = QueryMatch<Parts> & { value: V };
+
+// Where a query finds and reads its objects
+export interface QuerySource<V, Parts> {
+	find(partitions: Partial<Parts>): Promise<QueryMatch<Parts>[]>;
+	// Resolves to null when the object was deleted after it was found
+	read(match: QueryMatch<Parts>): Promise<V | null>;
+}
+
+export type OrderDirection = "asc" | "desc";
+
+// Fields of a value that hold numbers
+export type NumericField<V> = {
+	[F in keyof V]-?: V[F] extends number | undefined ? F : never;
+}[keyof V];
+
+// Aggregates computed for each value of a partition field, keyed by that
+// value as a string
+export interface GroupedQuery<V, Parts, Out> {
+	run(): Promise<Record<string, QueryRow<Out, Parts>[]>>;
+	count(): Promise<Record<string, number>>;
+	sum(field: NumericField<V>): Promise<Record<string, number>>;
+	min<F extends keyof V>(field: F): Promise<Record<string, V[F] | null>>;
+	max<F extends keyof V>(field: F): Promise<Record<string, V[F] | null>>;
+}
+
+type QueryState<V, Parts> = {
+	partitions: Partial<Parts>;
+	predicates: Array<(value: V, row: QueryRow<V, Parts>) => boolean>;
+	fields?: Array<keyof V>;
+	order: Array<{ by: (row: QueryRow<V, Parts>) => unknown; direction: number }>;
+	limit?: number;
+	concurrency: number;
+};
+
+const DEFAULT_CONCURRENCY = 10;
+
+// Dates compare by time; null and undefined sort last in either direction
+const compareValues = (a: unknown, b: unknown, direction: number): number => {
+	const left = a instanceof Date ? a.getTime() : a;
+	const right = b instanceof Date ? b.getTime() : b;
+	if (left === right) {
+		return 0;
+	}
+	if (left === undefined || left === null) {
+		return 1;
+	}
+	if (right === undefined || right === null) {
+		return -1;
+	}
+	return (left as number) < (right as number) ? -direction : direction;
+};
+
+const groupBy = <Row extends { partitions: Parts }, Parts, R>(
+	rows: Row[],
+	field: keyof Parts,
+	reduce: (group: Row[]) => R,
+): Record<string, R> => {
+	const groups: Record<string, Row[]> = {};
+	for (const row of rows) {
+		const name = String(row.partitions[field]);
+		groups[name] = groups[name] ?? [];
+		groups[name].push(row);
+	}
+
+	return Object.fromEntries(
+		Object.entries(groups).map(([name, group]) => [name, reduce(group)]),
+	);
+};
+
+const sumOf = <V>(rows: { value: V }[], field: keyof V): number =>
+	rows.reduce(
+		(total, row) => total + ((row.value[field] as number | undefined) ?? 0),
+		0,
+	);
+
+// The smallest (direction 1) or largest (direction -1) value of a field,
+// ignoring rows where it is missing
+const extremeOf = <V, F extends keyof V>(
+	rows: { value: V }[],
+	field: F,
+	direction: number,
+): V[F] | null => {
+	let result: V[F] | null = null;
+	for (const row of rows) {
+		const value = row.value[field];
+		if (
+			value !== undefined &&
+			value !== null &&
+			(result === null || compareValues(value, result, direction) < 0)
+		) {
+			result = value;
+		}
+	}
+	return result;
+};
+
+/**
+ * A query over the partitioned values of one schema key
+ * Queries are immutable: each builder method returns a new query. Nothing
+ * is read until `run` or an aggregate is called; objects are then found by
+ * listing and read with bounded concurrency only when their values are
+ * needed.
+ */
+export class Query<V, Parts, Out = V> {
+	private readonly source: QuerySource<V, Parts>;
+	private state: QueryState<V, Parts>;
+
+	constructor(
+		source: QuerySource<V, Parts>,
+		options: { concurrency?: number } = {},
+	) {
+		this.source = source;
+		this.state = {
+			partitions: {},
+			predicates: [],
+			order: [],
+			concurrency: options.concurrency ?? DEFAULT_CONCURRENCY,
+		};
+	}
+
+	private with<R = Out>(
+		changes: Partial<QueryState<V, Parts>>,
+	): Query<V, Parts, R> {
+		const query = new Query<V, Parts, R>(this.source);
+		query.state = { ...this.state, ...changes };
+		return query;
+	}
+
+	// Only objects under matching partitions are listed
+	wherePartitions(partitions: Partial<Parts>): Query<V, Parts, Out> {
+		return this.with({
+			partitions: { ...this.state.partitions, ...partitions },
+		});
+	}
+
+	// Keep values the predicate accepts; several predicates must all pass
+	where(
+		predicate: (value: V, row: QueryRow<V, Parts>) => boolean,
+	): Query<V, Parts, Out> {
+		return this.with({
+			predicates: [...this.state.predicates, predicate],
+		});
+	}
+
+	// Return only these fields of each value
+	select<F extends keyof V>(fields: F[]): Query<V, Parts, Pick<V, F>> {
+		return this.with<Pick<V, F>>({ fields });
+	}
+
+	// Sort by a field of the value or a function of the row; later calls
+	// break ties left by earlier ones
+	orderBy(
+		by: keyof V | ((row: QueryRow<V, Parts>) => unknown),
+		direction: OrderDirection = "asc",
+	): Query<V, Parts, Out> {
+		return this.with({
+			order: [
+				...this.state.order,
+				{
+					by: typeof by === "function" ? by : (row) => row.value[by],
+					direction: direction === "desc" ? -1 : 1,
+				},
+			],
+		});
+	}
+
+	limit(count: number): Query<V, Parts, Out> {
+		return this.with({ limit: count });
+	}
+
+	// Maximum number of objects read at once (default: 10)
+	concurrency(limit: number): Query<V, Parts, Out> {
+		return this.with({ concurrency: limit });
+	}
+
+	private async read(
+		matches: QueryMatch<Parts>[],
+	): Promise<QueryRow<V, Parts>[]> {
+		const values = await mapWithConcurrency(
+			matches,
+			this.state.concurrency,
+			(match) => this.source.read(match),
+		);
+
+		const rows: QueryRow<V, Parts>[] = [];
+		matches.forEach((match, index) => {
+			const value = values[index];
+			if (value === null) {
+				return;
+			}
+			const row = { ...match, value };
+			if (this.state.predicates.every((predicate) => predicate(value, row))) {
+				rows.push(row);
+			}
+		});
+		return rows;
+	}
+
+	// Reads in batches and stops once enough rows matched, which is only
+	// correct when the results are not sorted
+	private async readUntil(
+		matches: QueryMatch<Parts>[],
+		limit: number,
+	): Promise<QueryRow<V, Parts>[]> {
+		const rows: QueryRow<V, Parts>[] = [];
+		let start = 0;
+		while (start < matches.length && rows.length < limit) {
+			// Without predicates every read object is a row, so no more are
+			// read than still needed
+			const size =
+				this.state.predicates.length > 0
+					? this.state.concurrency
+					: Math.min(this.state.concurrency, limit - rows.length);
+			rows.push(...(await this.read(matches.slice(start, start + size))));
+			start += size;
+		}
+		return rows.slice(0, limit);
+	}
+
+	// The matching rows, sorted and limited but not projected
+	private async rows(): Promise<QueryRow<V, Parts>[]> {
+		const { order, limit } = this.state;
+		const matches = await this.source.find(this.state.partitions);
+
+		if (order.length === 0 && limit !== undefined) {
+			return await this.readUntil(matches, limit);
+		}
+
+		const rows = await this.read(matches);
+		rows.sort((a, b) => {
+			for (const { by, direction } of order) {
+				const result = compareValues(by(a), by(b), direction);
+				if (result !== 0) {
+					return result;
+				}
+			}
+			return 0;
+		});
+		return limit === undefined ? rows : rows.slice(0, limit);
+	}
+
+	private project(row: QueryRow<V, Parts>): QueryRow<Out, Parts> {
+		const { fields } = this.state;
+		if (fields === undefined) {
+			return row as unknown as QueryRow<Out, Parts>;
+		}
+
+		const value: Partial<V> = {};
+		for (const field of fields) {
+			if (field in (row.value as object)) {
+				value[field] = row.value[field];
+			}
+		}
+		return { ...row, value: value as unknown as Out };
+	}
+
+	async run(): Promise<QueryRow<Out, Parts>[]> {
+		return (await this.rows()).map((row) => this.project(row));
+	}
+
+	// Counts the rows `run` would return, so values are read even without
+	// predicates: the listing alone includes expired objects
+	async count(): Promise<number> {
+		return (await this.rows()).length;
+	}
+
+	async sum(field: NumericField<V>): Promise<number> {
+		return sumOf(await this.rows(), field);
+	}
+
+	async min<F extends keyof V>(field: F): Promise<V[F] | null> {
+		return extremeOf(await this.rows(), field, 1);
+	}
+
+	async max<F extends keyof V>(field: F): Promise<V[F] | null> {
+		return extremeOf(await this.rows(), field, -1);
+	}
+
+	// Aggregate separately for each value of a partition field
+	groupBy(field: keyof Parts): GroupedQuery<V, Parts, Out> {
+		return {
+			run: async () =>
+				groupBy(await this.rows(), field, (group) =>
+					group.map((row) => this.project(row)),
+				),
+			count: async () =>
+				groupBy(await this.rows(), field, (group) => group.length),
+			sum: async (valueField) =>
+				groupBy(await this.rows(), field, (group) => sumOf(group, valueField)),
+			min: async (valueField) =>
+				groupBy(await this.rows(), field, (group) =>
+					extremeOf(group, valueField, 1),
+				),
+			max: async (valueField) =>
+				groupBy(await this.rows(), field, (group) =>
+					extremeOf(group, valueField, -1),
+				),
+		};
+	}
+}
@@ -0,0 +1,78 @@
+import { ZodBucketError } from "./errors";
+import { TIME_PARTITION_FIELDS } from "./log";
+
+/**
+ * How long a schema key's partitioned objects are kept
+ * Age-based policies keep partitions that ended within the last `days` or
+ * `hours`; `expired` decides for each partition instead.
+ */
+export type RetentionPolicy<Parts> =
+	| { days: number }
+	| { hours: number }
+	| { expired: (partitions: Parts, now: Date) => boolean };
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+/**
+ * The end of the time period a partition covers, from its year, month,
+ * day, hour and minute fields
+ * Fields count only from year down to the first one missing, so undefined
+ * is returned for partitions without a year.
+ */
+export const getPartitionEnd = (
+	partitions: Record<string, unknown>,
+): Date | undefined => {
+	const values: number[] = [];
+	for (const field of TIME_PARTITION_FIELDS) {
+		const value = partitions[field];
+		if (
+			(typeof value !== "string" && typeof value !== "number") ||
+			value === "" ||
+			!Number.isInteger(Number(value))
+		) {
+			break;
+		}
+		values.push(Number(value));
+	}
+	if (values.length === 0) {
+		return undefined;
+	}
+
+	const parts = [
+		values[0],
+		(values[1] ?? 1) - 1,
+		values[2] ?? 1,
+		values[3] ?? 0,
+		values[4] ?? 0,
+	];
+	// Date.UTC carries the overflow, e.g. from month 12 into the next year
+	parts[values.length - 1]++;
+	return new Date(Date.UTC(parts[0], parts[1], parts[2], parts[3], parts[4]));
+};
+
+const getMaxAge = (policy: { days: number } | { hours: number }): number => {
+	const maxAge = "days" in policy ? policy.days * DAY : policy.hours * HOUR;
+	if (!(Number.isFinite(maxAge) && maxAge >= 0)) {
+		throw new ZodBucketError(
+			`Invalid retention policy: ${JSON.stringify(policy)}`,
+		);
+	}
+	return maxAge;
+};
+
+// Partitions that cannot be dated are kept by age-based policies
+export const isPartitionExpired = <Parts>(
+	policy: RetentionPolicy<Parts>,
+	partitions: Parts,
+	now: Date,
+): boolean => {
+	if ("expired" in policy) {
+		return policy.expired(partitions, now);
+	}
+
+	const end = getPartitionEnd(partitions as Record<string, unknown>);
+	return (
+		end !== undefined && end.getTime() <= now.getTime() - getMaxAge(policy)
+	);
+};
@@ -0,0 +1,599 @@
+import { promisify } from "node:util";
+import {
+	brotliCompress,
+	brotliDecompress,
+	gunzip,
+	gzip as gzipCompress,
+} from "node:zlib";
+
+// Converts values to and from object bodies
+export interface Serializer {
+	// Recorded in object metadata so reads pick the matching decoder
+	name: string;
+	contentType: string;
+	contentEncoding?: string;
+	serialize(value: unknown): Uint8Array | Promise<Uint8Array>;
+	deserialize(body: Uint8Array): unknown | Promise<unknown>;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export const jsonSerializer: Serializer = {
+	name: "json",
+	contentType: "application/json",
+	serialize: (value) => textEncoder.encode(JSON.stringify(value)),
+	deserialize: (body) => JSON.parse(textDecoder.decode(body)),
+};
+
+// Rich JSON keeps values that plain JSON loses, in the style of superjson:
+// the body holds the JSON-safe value plus a list of paths that need to be
+// turned back into their original type
+
+type RichType = "Date" | "bigint" | "Map" | "Set" | "undefined" | "number";
+
+export type RichJsonBody = {
+	json: unknown;
+	meta?: [Array<string | number>, RichType][];
+};
+
+const encodeRich = (
+	value: unknown,
+	path: Array<string | number>,
+	meta: NonNullable<RichJsonBody["meta"]>,
+): unknown => {
+	if (value instanceof Date) {
+		meta.push([path, "Date"]);
+		return value.toISOString();
+	}
+	if (typeof value === "bigint") {
+		meta.push([path, "bigint"]);
+		return value.toString();
+	}
+	if (value === undefined) {
+		meta.push([path, "undefined"]);
+		return null;
+	}
+	if (typeof value === "number" && !Number.isFinite(value)) {
+		meta.push([path, "number"]);
+		return String(value);
+	}
+	if (value instanceof Map) {
+		// Children are recorded first, so they are restored before the parent
+		const entries = Array.from(value.entries()).map(
+			([entryKey, entryValue], i) => [
+				encodeRich(entryKey, [...path, i, 0], meta),
+				encodeRich(entryValue, [...path, i, 1], meta),
+			],
+		);
+		meta.push([path, "Map"]);
+		return entries;
+	}
+	if (value instanceof Set) {
+		const items = Array.from(value).map((item, i) =>
+			encodeRich(item, [...path, i], meta),
+		);
+		meta.push([path, "Set"]);
+		return items;
+	}
+	if (Array.isArray(value)) {
+		return value.map((item, i) => encodeRich(item, [...path, i], meta));
+	}
+	if (typeof value === "object" && value !== null) {
+		const result: Record<string, unknown> = {};
+		for (const [name, item] of Object.entries(value)) {
+			if (item !== undefined) {
+				result[name] = encodeRich(item, [...path, name], meta);
+			}
+		}
+		return result;
+	}
+	return value;
+};
+
+const decodeRich = (value: unknown, type: RichType): unknown => {
+	switch (type) {
+		case "Date":
+			return new Date(value as string);
+		case "bigint":
+			return BigInt(value as string);
+		case "Map":
+			return new Map(value as [unknown, unknown][]);
+		case "Set":
+			return new Set(value as unknown[]);
+		case "undefined":
+			return undefined;
+		default:
+			return Number(value);
+	}
+};
+
+// Paths come from the stored body, so they may only lead through the
+// value's own properties and never to a prototype
+const UNSAFE_SEGMENTS = new Set(["__proto__", "constructor", "prototype"]);
+
+const getRichParent = (
+	root: unknown,
+	path: Array<string | number>,
+): Record<string | number, unknown> => {
+	const isOwn = (target: unknown, segment: string | number) =>
+		typeof target === "object" &&
+		target !== null &&
+		!UNSAFE_SEGMENTS.has(String(segment)) &&
+		Object.prototype.hasOwnProperty.call(target, segment);
+
+	let parent = root as Record<string | number, unknown>;
+	for (let i = 0; i < path.length; i++) {
+		const segment = path[i];
+		if (!isOwn(parent, segment)) {
+			throw new TypeError(`Invalid rich JSON path: ${path.join(".")}`);
+		}
+		if (i < path.length - 1) {
+			parent = parent[segment] as Record<string | number, unknown>;
+		}
+	}
+	return parent;
+};
+
+// Splits a value into its JSON-safe form and the paths to restore
+export const toRichJson = (value: unknown): RichJsonBody => {
+	const meta: NonNullable<RichJsonBody["meta"]> = [];
+	const json = encodeRich(value, [], meta);
+	return meta.length > 0 ? { json, meta } : { json };
+};
+
+// Restores the values `toRichJson` recorded, in place
+export const fromRichJson = ({ json, meta = [] }: RichJsonBody): unknown => {
+	let root = json;
+	for (const [path, type] of meta) {
+		if (path.length === 0) {
+			root = decodeRich(root, type);
+			continue;
+		}
+		const parent = getRichParent(root, path);
+		const last = path[path.length - 1];
+		parent[last] = decodeRich(parent[last], type);
+	}
+	return root;
+};
+
+export const richJsonSerializer: Serializer = {
+	name: "rich-json",
+	contentType: "application/json",
+	serialize: (value) => textEncoder.encode(JSON.stringify(toRichJson(value))),
+	deserialize: (body) =>
+		fromRichJson(JSON.parse(textDecoder.decode(body)) as RichJsonBody),
+};
+
+// MessagePack (https://msgpack.org), with Dates stored as the timestamp
+// extension and 64-bit integers outside the safe range as bigints
+
+const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+	const result = new Uint8Array(
+		chunks.reduce((total, chunk) => total + chunk.length, 0),
+	);
+	let offset = 0;
+	for (const chunk of chunks) {
+		result.set(chunk, offset);
+		offset += chunk.length;
+	}
+	return result;
+};
+
+const withView = (
+	prefix: number,
+	size: number,
+	write: (view: DataView) => void,
+): Uint8Array => {
+	const bytes = new Uint8Array(size + 1);
+	bytes[0] = prefix;
+	write(new DataView(bytes.buffer, 1));
+	return bytes;
+};
+
+// Writes a length header using the fix, 8/16/32-bit variants of a family
+const encodeLength = (
+	length: number,
+	fix: { prefix: number; max: number } | undefined,
+	prefixes: [number | undefined, number, number],
+): Uint8Array => {
+	if (fix && length <= fix.max) {
+		return Uint8Array.of(fix.prefix | length);
+	}
+	if (prefixes[0] !== undefined && length <= 0xff) {
+		return Uint8Array.of(prefixes[0], length);
+	}
+	if (length <= 0xffff) {
+		return withView(prefixes[1], 2, (view) => view.setUint16(0, length));
+	}
+	return withView(prefixes[2], 4, (view) => view.setUint32(0, length));
+};
+
+// BigInt literals need an ES2020 target
+const MAX_UINT8 = BigInt(0xff);
+const MAX_UINT16 = BigInt(0xffff);
+const MAX_UINT32 = BigInt(0xffffffff);
+const MIN_INT32 = BigInt(-2147483648);
+
+const encodeInteger = (value: number | bigint): Uint8Array => {
+	const big = BigInt(value);
+	if (big >= 0) {
+		if (big < 128) {
+			return Uint8Array.of(Number(big));
+		}
+		if (big <= MAX_UINT8) {
+			return Uint8Array.of(0xcc, Number(big));
+		}
+		if (big <= MAX_UINT16) {
+			return withView(0xcd, 2, (view) => view.setUint16(0, Number(big)));
+		}
+		if (big <= MAX_UINT32) {
+			return withView(0xce, 4, (view) => view.setUint32(0, Number(big)));
+		}
+		return withView(0xcf, 8, (view) => view.setBigUint64(0, big));
+	}
+	if (big >= -32) {
+		return Uint8Array.of(Number(big) & 0xff);
+	}
+	if (big >= -128) {
+		return withView(0xd0, 1, (view) => view.setInt8(0, Number(big)));
+	}
+	if (big >= -32768) {
+		return withView(0xd1, 2, (view) => view.setInt16(0, Number(big)));
+	}
+	if (big >= MIN_INT32) {
+		return withView(0xd2, 4, (view) => view.setInt32(0, Number(big)));
+	}
+	return withView(0xd3, 8, (view) => view.setBigInt64(0, big));
+};
+
+const encodeTimestamp = (date: Date): Uint8Array => {
+	const millis = date.getTime();
+	const seconds = Math.floor(millis / 1000);
+	const nanoseconds = (millis - seconds * 1000) * 1_000_000;
+	const bytes = new Uint8Array(15);
+	bytes.set([0xc7, 12, 0xff]);
+	const view = new DataView(bytes.buffer, 3);
+	view.setUint32(0, nanoseconds);
+	view.setBigInt64(4, BigInt(seconds));
+	return bytes;
+};
+
+// Returns undefined for arrays, sets, maps and objects
+const encodeScalar = (value: unknown): Uint8Array[] | undefined => {
+	if (value === null || value === undefined) {
+		return [Uint8Array.of(0xc0)];
+	}
+	if (typeof value === "boolean") {
+		return [Uint8Array.of(value ? 0xc3 : 0xc2)];
+	}
+	if (typeof value === "bigint") {
+		return [encodeInteger(value)];
+	}
+	if (typeof value === "number") {
+		return Number.isSafeInteger(value)
+			? [encodeInteger(value)]
+			: [withView(0xcb, 8, (view) => view.setFloat64(0, value))];
+	}
+	if (typeof value === "string") {
+		const bytes = textEncoder.encode(value);
+		return [
+			encodeLength(bytes.length, { prefix: 0xa0, max: 31 }, [0xd9, 0xda, 0xdb]),
+			bytes,
+		];
+	}
+	if (value instanceof Uint8Array) {
+		return [encodeLength(value.length, undefined, [0xc4, 0xc5, 0xc6]), value];
+	}
+	if (value instanceof Date) {
+		return [encodeTimestamp(value)];
+	}
+	if (typeof value !== "object") {
+		throw new TypeError(`Cannot encode ${typeof value} as MessagePack`);
+	}
+	return undefined;
+};
+
+const encodeMsgpack = (value: unknown, chunks: Uint8Array[]): void => {
+	const scalar = encodeScalar(value);
+	if (scalar) {
+		chunks.push(...scalar);
+		return;
+	}
+
+	if (Array.isArray(value) || value instanceof Set) {
+		const items = Array.from(value);
+		chunks.push(
+			encodeLength(items.length, { prefix: 0x90, max: 15 }, [
+				undefined,
+				0xdc,
+				0xdd,
+			]),
+		);
+		for (const item of items) {
+			encodeMsgpack(item, chunks);
+		}
+		return;
+	}
+
+	const entries =
+		value instanceof Map
+			? Array.from(value.entries())
+			: Object.entries(value as object).filter(
+					([, item]) => item !== undefined,
+				);
+	chunks.push(
+		encodeLength(entries.length, { prefix: 0x80, max: 15 }, [
+			undefined,
+			0xde,
+			0xdf,
+		]),
+	);
+	for (const [entryKey, entryValue] of entries) {
+		encodeMsgpack(entryKey, chunks);
+		encodeMsgpack(entryValue, chunks);
+	}
+};
+
+class MsgpackReader {
+	private offset = 0;
+	private readonly view: DataView;
+
+	private readonly bytes: Uint8Array;
+
+	constructor(bytes: Uint8Array) {
+		this.bytes = bytes;
+		this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+	}
+
+	read(): unknown {
+		const prefix = this.uint(1);
+
+		if (prefix < 0x80) {
+			return prefix;
+		}
+		if (prefix >= 0xe0) {
+			return prefix - 0x100;
+		}
+		if (prefix >= 0x80 && prefix <= 0x8f) {
+			return this.map(prefix & 0x0f);
+		}
+		if (prefix >= 0x90 && prefix <= 0x9f) {
+			return this.array(prefix & 0x0f);
+		}
+		if (prefix >= 0xa0 && prefix <= 0xbf) {
+			return this.string(prefix & 0x1f);
+		}
+		return this.readTyped(prefix);
+	}
+
+	private readTyped(prefix: number): unknown {
+		switch (prefix) {
+			case 0xc0:
+				return null;
+			case 0xc2:
+				return false;
+			case 0xc3:
+				return true;
+			case 0xc4:
+			case 0xc5:
+			case 0xc6:
+				return this.take(this.uint(1 << (prefix - 0xc4))).slice();
+			case 0xc7:
+				return this.extension(this.uint(1));
+			case 0xd4:
+			case 0xd5:
+			case 0xd6:
+			case 0xd7:
+			case 0xd8:
+				return this.extension(1 << (prefix - 0xd4));
+			case 0xca:
+				return this.number((view, at) => view.getFloat32(at), 4);
+			case 0xcb:
+				return this.number((view, at) => view.getFloat64(at), 8);
+			case 0xcc:
+			case 0xcd:
+			case 0xce:
+				return this.uint(1 << (prefix - 0xcc));
+			case 0xcf:
+				return this.bigint((view, at) => view.getBigUint64(at));
+			case 0xd0:
+				return this.number((view, at) => view.getInt8(at), 1);
+			case 0xd1:
+				return this.number((view, at) => view.getInt16(at), 2);
+			case 0xd2:
+				return this.number((view, at) => view.getInt32(at), 4);
+			case 0xd3:
+				return this.bigint((view, at) => view.getBigInt64(at));
+			case 0xd9:
+			case 0xda:
+			case 0xdb:
+				return this.string(this.uint(1 << (prefix - 0xd9)));
+			case 0xdc:
+			case 0xdd:
+				return this.array(this.uint(prefix === 0xdc ? 2 : 4));
+			case 0xde:
+			case 0xdf:
+				return this.map(this.uint(prefix === 0xde ? 2 : 4));
+			default:
+				throw new TypeError(
+					`Invalid MessagePack prefix: 0x${prefix.toString(16)}`,
+				);
+		}
+	}
+
+	private take(length: number): Uint8Array {
+		if (this.offset + length > this.bytes.length) {
+			throw new RangeError("Unexpected end of MessagePack data");
+		}
+		const slice = this.bytes.subarray(this.offset, this.offset + length);
+		this.offset += length;
+		return slice;
+	}
+
+	private number(
+		read: (view: DataView, at: number) => number,
+		size: number,
+	): number {
+		const at = this.offset;
+		this.take(size);
+		return read(this.view, at);
+	}
+
+	private uint(size: number): number {
+		const at = this.offset;
+		this.take(size);
+		if (size === 1) {
+			return this.view.getUint8(at);
+		}
+		return size === 2 ? this.view.getUint16(at) : this.view.getUint32(at);
+	}
+
+	private bigint(
+		read: (view: DataView, at: number) => bigint,
+	): number | bigint {
+		const at = this.offset;
+		this.take(8);
+		const value = read(this.view, at);
+		const asNumber = Number(value);
+		return Number.isSafeInteger(asNumber) ? asNumber : value;
+	}
+
+	private string(length: number): string {
+		return textDecoder.decode(this.take(length));
+	}
+
+	private array(length: number): unknown[] {
+		return Array.from({ length }, () => this.read());
+	}
+
+	// Keys are defined rather than assigned, so a "__proto__" key is kept as
+	// data instead of replacing the prototype
+	private map(length: number): Record<string, unknown> {
+		const result: Record<string, unknown> = {};
+		for (let i = 0; i < length; i++) {
+			Object.defineProperty(result, String(this.read()), {
+				value: this.read(),
+				enumerable: true,
+				writable: true,
+				configurable: true,
+			});
+		}
+		return result;
+	}
+
+	private extension(length: number): Date {
+		const type = this.view.getInt8(this.offset);
+		this.take(1);
+		const data = this.take(length);
+		if (type !== -1) {
+			throw new TypeError(`Unsupported MessagePack extension type: ${type}`);
+		}
+		if (length !== 4 && length !== 8 && length !== 12) {
+			throw new TypeError(`Invalid MessagePack timestamp length: ${length}`);
+		}
+
+		const view = new DataView(data.buffer, data.byteOffset, data.length);
+		if (length === 4) {
+			return new Date(view.getUint32(0) * 1000);
+		}
+		if (length === 8) {
+			const nanoseconds = view.getUint32(0) >>> 2;
+			const seconds = (view.getUint32(0) & 0x3) * 2 ** 32 + view.getUint32(4);
+			return new Date(seconds * 1000 + nanoseconds / 1_000_000);
+		}
+		return new Date(
+			Number(view.getBigInt64(4)) * 1000 + view.getUint32(0) / 1_000_000,
+		);
+	}
+}
+
+export const msgpackSerializer: Serializer = {
+	name: "msgpack",
+	contentType: "application/msgpack",
+	serialize: (value) => {
+		const chunks: Uint8Array[] = [];
+		encodeMsgpack(value, chunks);
+		return concatBytes(chunks);
+	},
+	deserialize: (body) => new MsgpackReader(body).read(),
+};
+
+// One JSON value per line, for arrays of records such as compacted
+// segments
+export const ndjsonSerializer: Serializer = {
+	name: "ndjson",
+	contentType: "application/x-ndjson",
+	serialize: (value) =>
+		textEncoder.encode(
+			(value as unknown[]).map((item) => `${JSON.stringify(item)}\n`).join(""),
+		),
+	deserialize: (body) =>
+		textDecoder
+			.decode(body)
+			.split("\n")
+			.filter((line) => line !== "")
+			.map((line) => JSON.parse(line)),
+};
+
+const compressors = {
+	gzip: {
+		compress: promisify(gzipCompress),
+		decompress: promisify(gunzip),
+	},
+	br: {
+		compress: promisify(brotliCompress),
+		decompress: promisify(brotliDecompress),
+	},
+};
+
+/**
+ * Wrap a serializer so its output is compressed
+ * @param serializer - The serializer producing the uncompressed body
+ * @param encoding - The compression to apply, recorded as Content-Encoding
+ */
+export const compressed = (
+	serializer: Serializer,
+	encoding: keyof typeof compressors,
+): Serializer => {
+	const { compress, decompress } = compressors[encoding];
+	return {
+		name: `${serializer.name}+${encoding}`,
+		contentType: serializer.contentType,
+		contentEncoding: encoding,
+		serialize: async (value) =>
+			new Uint8Array(await compress(await serializer.serialize(value))),
+		deserialize: async (body) =>
+			await serializer.deserialize(new Uint8Array(await decompress(body))),
+	};
+};
+
+export const gzip = (serializer: Serializer = jsonSerializer): Serializer =>
+	compressed(serializer, "gzip");
+
+export const brotli = (serializer: Serializer = jsonSerializer): Serializer =>
+	compressed(serializer, "br");
+
+const builtInSerializers = [
+	jsonSerializer,
+	richJsonSerializer,
+	msgpackSerializer,
+	ndjsonSerializer,
+].flatMap((serializer) => [serializer, gzip(serializer), brotli(serializer)]);
+
+/**
+ * Build a lookup from the serializer name recorded on an object
+ * Objects without a recorded name were written as plain JSON
+ * @param serializers - Custom serializers in addition to the built-in ones
+ */
+export const createSerializerRegistry = (serializers: Serializer[]) => {
+	const byName = new Map(
+		[...builtInSerializers, ...serializers].map((serializer) => [
+			serializer.name,
+			serializer,
+		]),
+	);
+
+	return (name: string | undefined): Serializer | undefined =>
+		name === undefined ? jsonSerializer : byName.get(name);
+};
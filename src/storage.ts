@@ -0,0 +1,889 @@
+import { createHash, randomUUID } from "node:crypto";
+import type { Dirent } from "node:fs";
+import {
+	type FileHandle,
+	link,
+	mkdir,
+	open,
+	readFile,
+	readdir,
+	rename,
+	unlink,
+	writeFile,
+} from "node:fs/promises";
+import { dirname, join } from "node:path";
+import {
+	DeleteObjectCommand,
+	DeleteObjectsCommand,
+	GetObjectCommand,
+	HeadObjectCommand,
+	ListObjectVersionsCommand,
+	type ListObjectVersionsCommandOutput,
+	ListObjectsV2Command,
+	PutObjectCommand,
+	type S3Client,
+} from "@aws-sdk/client-s3";
+import { ConflictError, StorageError, ZodBucketError } from "./errors";
+
+// An object as returned by a storage backend
+export type StorageObject = {
+	body: Uint8Array;
+	etag?: string;
+	versionId?: string;
+	contentType?: string;
+	contentEncoding?: string;
+	lastModified?: Date;
+	// Keys are lowercase, as S3 returns them
+	metadata: Record<string, string>;
+	// Set, with an empty body, when `ifNoneMatch` matched the stored ETag
+	notModified?: boolean;
+};
+
+// An object's details without its body
+export type StorageObjectHead = Omit<StorageObject, "body" | "notModified"> & {
+	size: number;
+};
+
+export type StorageGetOptions = {
+	// Skip the body when the stored ETag still matches
+	ifNoneMatch?: string;
+	// Read an older version, on backends that keep them
+	versionId?: string;
+};
+
+// A version of an object, kept by a versioned bucket
+export type StorageObjectVersion = {
+	versionId: string;
+	lastModified?: Date;
+	size?: number;
+	etag?: string;
+	isLatest: boolean;
+	// Deleting a key in a versioned bucket adds a version without a body
+	isDeleteMarker: boolean;
+};
+
+export type StorageObjectInfo = {
+	key: string;
+	lastModified?: Date;
+	size?: number;
+	etag?: string;
+};
+
+export type StoragePutOptions = {
+	contentType?: string;
+	contentEncoding?: string;
+	metadata?: Record<string, string>;
+	// Only write when the stored ETag matches
+	ifMatch?: string;
+	// Only write when no object exists yet
+	ifNoneMatch?: "*";
+};
+
+export type StorageDeleteOptions = {
+	// Only delete when the stored ETag matches; a missing object counts as
+	// deleted. On S3 this needs a bucket that supports conditional deletes.
+	ifMatch?: string;
+};
+
+export type StorageListOptions = {
+	pageSize?: number;
+	startAfter?: string;
+	cursor?: string;
+};
+
+export type StorageListPage = {
+	items: StorageObjectInfo[];
+	// Set when there are more objects to list
+	cursor?: string;
+};
+
+export type StorageDeleteFailure = {
+	key: string;
+	error: unknown;
+};
+
+/**
+ * The object store under a ZodBucket
+ * Failed preconditions on `put` and `delete` must throw a ConflictError
+ */
+export interface StorageAdapter {
+	get(key: string, options?: StorageGetOptions): Promise<StorageObject | null>;
+	// Reads an object's details without its body. ZodBucket downloads the
+	// object instead when this is not implemented.
+	head?(key: string): Promise<StorageObjectHead | null>;
+	put(
+		key: string,
+		body: Uint8Array,
+		options?: StoragePutOptions,
+	): Promise<{ etag?: string; versionId?: string }>;
+	delete(key: string, options?: StorageDeleteOptions): Promise<void>;
+	// Deletes several objects at once and returns the ones that failed.
+	// ZodBucket deletes one key at a time when this is not implemented.
+	deleteMany?(keys: string[]): Promise<StorageDeleteFailure[]>;
+	list(
+		prefix: string | undefined,
+		options?: StorageListOptions,
+	): Promise<StorageListPage>;
+	// Lists every version of one key, newest first. Only implemented by
+	// backends that keep versions.
+	listVersions?(key: string): Promise<StorageObjectVersion[]>;
+}
+
+/**
+ * Wrap a backend so its failures surface as StorageErrors
+ * Errors that are already ZodBucket errors, such as ConflictError, pass
+ * through unchanged
+ */
+export const withStorageErrors = (storage: StorageAdapter): StorageAdapter => {
+	const wrap = async <R>(
+		operation: string,
+		key: string | undefined,
+		fn: () => Promise<R>,
+	): Promise<R> => {
+		try {
+			return await fn();
+		} catch (error) {
+			if (error instanceof ZodBucketError) {
+				throw error;
+			}
+			throw new StorageError(operation, key, error);
+		}
+	};
+	const head = storage.head?.bind(storage);
+	const deleteMany = storage.deleteMany?.bind(storage);
+	const listVersions = storage.listVersions?.bind(storage);
+
+	return {
+		get: (key, options) => wrap("get", key, () => storage.get(key, options)),
+		head: head && ((key) => wrap("head", key, () => head(key))),
+		put: (key, body, options) =>
+			wrap("put", key, () => storage.put(key, body, options)),
+		delete: (key, options) =>
+			wrap("delete", key, () => storage.delete(key, options)),
+		deleteMany:
+			deleteMany &&
+			((keys) => wrap("deleteMany", undefined, () => deleteMany(keys))),
+		list: (prefix, options) =>
+			wrap("list", prefix, () => storage.list(prefix, options)),
+		listVersions:
+			listVersions &&
+			((key) => wrap("listVersions", key, () => listVersions(key))),
+	};
+};
+
+const DEFAULT_PAGE_SIZE = 1000;
+// The most keys a single DeleteObjects request accepts
+const DELETE_BATCH_SIZE = 1000;
+
+const notModified = (etag: string): StorageObject => ({
+	body: new Uint8Array(),
+	etag,
+	metadata: {},
+	notModified: true,
+});
+
+// S3 ETags are the quoted MD5 of the body
+const computeETag = (body: Uint8Array): string =>
+	`"${createHash("md5").update(body).digest("hex")}"`;
+
+const lowercaseKeys = (
+	metadata: Record<string, string> = {},
+): Record<string, string> =>
+	Object.fromEntries(
+		Object.entries(metadata).map(([name, value]) => [
+			name.toLowerCase(),
+			value,
+		]),
+	);
+
+// Pages through sorted keys the way ListObjectsV2 does, with the last key
+// of a page as the cursor for the next one
+const pageKeys = (
+	keys: string[],
+	prefix: string | undefined,
+	options: StorageListOptions,
+): { keys: string[]; cursor?: string } => {
+	const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+	const after = options.cursor ?? options.startAfter;
+	const matching = keys
+		.filter(
+			(key) =>
+				(prefix === undefined || key.startsWith(prefix)) &&
+				(after === undefined || key > after),
+		)
+		.sort();
+
+	const page = matching.slice(0, pageSize);
+	return {
+		keys: page,
+		cursor: matching.length > pageSize ? page[page.length - 1] : undefined,
+	};
+};
+
+const getHttpStatusCode = (error: unknown): number | undefined => {
+	if (typeof error === "object" && error !== null && "$metadata" in error) {
+		const awsError = error as { $metadata?: { httpStatusCode?: number } };
+		return awsError.$metadata?.httpStatusCode;
+	}
+	return undefined;
+};
+
+const isNotModifiedError = (error: unknown): boolean =>
+	(error instanceof Error && error.name === "NotModified") ||
+	getHttpStatusCode(error) === 304;
+
+const isNotFoundError = (error: unknown): boolean => {
+	if (error instanceof Error && error.name === "NoSuchKey") {
+		return true;
+	}
+	return getHttpStatusCode(error) === 404;
+};
+
+// S3 answers 412 for a failed precondition and 409 when a concurrent
+// conditional write to the same key is in flight
+const isPreconditionError = (error: unknown): boolean => {
+	if (error instanceof Error && error.name === "PreconditionFailed") {
+		return true;
+	}
+	const statusCode = getHttpStatusCode(error);
+	return statusCode === 412 || statusCode === 409;
+};
+
+// The versions and delete markers of exactly `key` in a listing page
+const getKeyVersions = (
+	response: ListObjectVersionsCommandOutput,
+	key: string,
+): StorageObjectVersion[] => [
+	...(response.Versions ?? []).flatMap((version) =>
+		version.Key === key && version.VersionId !== undefined
+			? [
+					{
+						versionId: version.VersionId,
+						lastModified: version.LastModified,
+						size: version.Size,
+						etag: version.ETag,
+						isLatest: version.IsLatest === true,
+						isDeleteMarker: false,
+					},
+				]
+			: [],
+	),
+	...(response.DeleteMarkers ?? []).flatMap((marker) =>
+		marker.Key === key && marker.VersionId !== undefined
+			? [
+					{
+						versionId: marker.VersionId,
+						lastModified: marker.LastModified,
+						isLatest: marker.IsLatest === true,
+						isDeleteMarker: true,
+					},
+				]
+			: [],
+	),
+];
+
+// The default backend, storing objects in an S3 bucket
+export class S3Storage implements StorageAdapter {
+	readonly client: S3Client;
+	readonly bucket: string;
+
+	constructor(options: { client: S3Client; bucket: string }) {
+		this.client = options.client;
+		this.bucket = options.bucket;
+	}
+
+	async get(
+		key: string,
+		options: StorageGetOptions = {},
+	): Promise<StorageObject | null> {
+		try {
+			const response = await this.client.send(
+				new GetObjectCommand({
+					Bucket: this.bucket,
+					Key: key,
+					IfNoneMatch: options.ifNoneMatch,
+					VersionId: options.versionId,
+				}),
+			);
+
+			if (!response.Body) {
+				return null;
+			}
+
+			return {
+				body: await response.Body.transformToByteArray(),
+				etag: response.ETag,
+				versionId: response.VersionId,
+				contentType: response.ContentType,
+				contentEncoding: response.ContentEncoding,
+				lastModified: response.LastModified,
+				metadata: response.Metadata ?? {},
+			};
+		} catch (error) {
+			if (isNotFoundError(error)) {
+				return null;
+			}
+			if (options.ifNoneMatch !== undefined && isNotModifiedError(error)) {
+				return notModified(options.ifNoneMatch);
+			}
+			throw error;
+		}
+	}
+
+	async head(key: string): Promise<StorageObjectHead | null> {
+		try {
+			const response = await this.client.send(
+				new HeadObjectCommand({ Bucket: this.bucket, Key: key }),
+			);
+
+			return {
+				size: response.ContentLength ?? 0,
+				etag: response.ETag,
+				versionId: response.VersionId,
+				contentType: response.ContentType,
+				contentEncoding: response.ContentEncoding,
+				lastModified: response.LastModified,
+				metadata: response.Metadata ?? {},
+			};
+		} catch (error) {
+			if (isNotFoundError(error)) {
+				return null;
+			}
+			throw error;
+		}
+	}
+
+	async put(
+		key: string,
+		body: Uint8Array,
+		options: StoragePutOptions = {},
+	): Promise<{ etag?: string; versionId?: string }> {
+		try {
+			const response = await this.client.send(
+				new PutObjectCommand({
+					Bucket: this.bucket,
+					Key: key,
+					Body: body,
+					ContentType: options.contentType,
+					ContentEncoding: options.contentEncoding,
+					Metadata: options.metadata,
+					IfMatch: options.ifMatch,
+					IfNoneMatch: options.ifNoneMatch,
+				}),
+			);
+			return { etag: response.ETag, versionId: response.VersionId };
+		} catch (error) {
+			if (isPreconditionError(error)) {
+				throw new ConflictError(key);
+			}
+			throw error;
+		}
+	}
+
+	async delete(key: string, options: StorageDeleteOptions = {}): Promise<void> {
+		try {
+			await this.client.send(
+				new DeleteObjectCommand({
+					Bucket: this.bucket,
+					Key: key,
+					IfMatch: options.ifMatch,
+				}),
+			);
+		} catch (error) {
+			if (isPreconditionError(error)) {
+				throw new ConflictError(key);
+			}
+			if (!isNotFoundError(error)) {
+				throw error;
+			}
+		}
+	}
+
+	async deleteMany(keys: string[]): Promise<StorageDeleteFailure[]> {
+		const failures: StorageDeleteFailure[] = [];
+
+		for (let start = 0; start < keys.length; start += DELETE_BATCH_SIZE) {
+			const batch = keys.slice(start, start + DELETE_BATCH_SIZE);
+			const response = await this.client.send(
+				new DeleteObjectsCommand({
+					Bucket: this.bucket,
+					Delete: {
+						Objects: batch.map((key) => ({ Key: key })),
+						Quiet: true,
+					},
+				}),
+			);
+
+			for (const error of response.Errors ?? []) {
+				failures.push({
+					key: error.Key as string,
+					error: new Error(`${error.Code}: ${error.Message}`),
+				});
+			}
+		}
+
+		return failures;
+	}
+
+	async list(
+		prefix: string | undefined,
+		options: StorageListOptions = {},
+	): Promise<StorageListPage> {
+		const response = await this.client.send(
+			new ListObjectsV2Command({
+				Bucket: this.bucket,
+				Prefix: prefix,
+				MaxKeys: options.pageSize,
+				StartAfter: options.startAfter,
+				ContinuationToken: options.cursor,
+			}),
+		);
+
+		return {
+			items: (response.Contents ?? []).flatMap((item) =>
+				item.Key === undefined
+					? []
+					: [
+							{
+								key: item.Key,
+								lastModified: item.LastModified,
+								size: item.Size,
+								etag: item.ETag,
+							},
+						],
+			),
+			cursor: response.IsTruncated ? response.NextContinuationToken : undefined,
+		};
+	}
+
+	// The key is listed as a prefix, so versions of longer keys are skipped.
+	// Keys are listed in order, so paging stops once it moves past the key.
+	async listVersions(key: string): Promise<StorageObjectVersion[]> {
+		const versions: StorageObjectVersion[] = [];
+		let keyMarker: string | undefined;
+		let versionIdMarker: string | undefined;
+		let truncated: boolean | undefined;
+		do {
+			const response = await this.client.send(
+				new ListObjectVersionsCommand({
+					Bucket: this.bucket,
+					Prefix: key,
+					KeyMarker: keyMarker,
+					VersionIdMarker: versionIdMarker,
+				}),
+			);
+
+			versions.push(...getKeyVersions(response, key));
+			keyMarker = response.NextKeyMarker;
+			versionIdMarker = response.NextVersionIdMarker;
+			truncated = response.IsTruncated;
+		} while (truncated && keyMarker === key);
+
+		return versions.sort(
+			(a, b) =>
+				(b.lastModified?.getTime() ?? 0) - (a.lastModified?.getTime() ?? 0),
+		);
+	}
+}
+
+// Keeps objects in process memory, for tests and local development
+export class MemoryStorage implements StorageAdapter {
+	private readonly objects = new Map<string, StorageObject>();
+
+	// Preconditions are checked and applied without yielding, so concurrent
+	// conditional writes behave as they do on S3
+	put(
+		key: string,
+		body: Uint8Array,
+		options: StoragePutOptions = {},
+	): Promise<{ etag?: string; versionId?: string }> {
+		const current = this.objects.get(key);
+		if (
+			(options.ifNoneMatch === "*" && current) ||
+			(options.ifMatch !== undefined && current?.etag !== options.ifMatch)
+		) {
+			return Promise.reject(new ConflictError(key));
+		}
+
+		const etag = computeETag(body);
+		this.objects.set(key, {
+			body: body.slice(),
+			etag,
+			contentType: options.contentType,
+			contentEncoding: options.contentEncoding,
+			lastModified: new Date(),
+			metadata: lowercaseKeys(options.metadata),
+		});
+		return Promise.resolve({ etag });
+	}
+
+	get(
+		key: string,
+		options: StorageGetOptions = {},
+	): Promise<StorageObject | null> {
+		const object = this.objects.get(key);
+		if (object?.etag !== undefined && object.etag === options.ifNoneMatch) {
+			return Promise.resolve(notModified(object.etag));
+		}
+		return Promise.resolve(
+			object
+				? {
+						...object,
+						body: object.body.slice(),
+						metadata: { ...object.metadata },
+					}
+				: null,
+		);
+	}
+
+	head(key: string): Promise<StorageObjectHead | null> {
+		const object = this.objects.get(key);
+		if (!object) {
+			return Promise.resolve(null);
+		}
+
+		return Promise.resolve({
+			size: object.body.length,
+			etag: object.etag,
+			contentType: object.contentType,
+			contentEncoding: object.contentEncoding,
+			lastModified: object.lastModified,
+			metadata: { ...object.metadata },
+		});
+	}
+
+	delete(key: string, options: StorageDeleteOptions = {}): Promise<void> {
+		const current = this.objects.get(key);
+		if (
+			current &&
+			options.ifMatch !== undefined &&
+			current.etag !== options.ifMatch
+		) {
+			return Promise.reject(new ConflictError(key));
+		}
+		this.objects.delete(key);
+		return Promise.resolve();
+	}
+
+	list(
+		prefix: string | undefined,
+		options: StorageListOptions = {},
+	): Promise<StorageListPage> {
+		const page = pageKeys(Array.from(this.objects.keys()), prefix, options);
+
+		return Promise.resolve({
+			items: page.keys.map((key) => {
+				const object = this.objects.get(key) as StorageObject;
+				return {
+					key,
+					lastModified: object.lastModified,
+					size: object.body.length,
+					etag: object.etag,
+				};
+			}),
+			cursor: page.cursor,
+		});
+	}
+}
+
+// Stored before the body in each file, on a line of its own
+type FileHeader = {
+	etag: string;
+	contentType?: string;
+	contentEncoding?: string;
+	lastModified: string;
+	size: number;
+	metadata: Record<string, string>;
+};
+
+// Object files end in "$", which encodeURIComponent always escapes, so the
+// key "user" and the keys under "user/" never clash on disk
+const OBJECT_FILE_SUFFIX = "$";
+// Bytes read at a time while looking for the end of a header
+const HEADER_CHUNK_SIZE = 4096;
+const LEADING_DOT = /^\./;
+
+const encodeSegment = (segment: string): string =>
+	segment === ""
+		? "%"
+		: encodeURIComponent(segment).replace(LEADING_DOT, "%2E");
+
+const decodeSegment = (name: string): string =>
+	name === "%" ? "" : decodeURIComponent(name);
+
+const isErrorCode = (error: unknown, code: string): boolean =>
+	typeof error === "object" &&
+	error !== null &&
+	(error as { code?: string }).code === code;
+
+/**
+ * Keeps objects as files under a directory, for local development
+ * Conditional writes are atomic within a single process; creating an
+ * object with `ifNoneMatch` is atomic across processes as well
+ */
+export class FileSystemStorage implements StorageAdapter {
+	private readonly directory: string;
+	private readonly pending = new Map<string, Promise<unknown>>();
+
+	constructor(options: { directory: string }) {
+		this.directory = options.directory;
+	}
+
+	private getPath(key: string): string {
+		const segments = key.split("/").map(encodeSegment);
+		const fileName = `${segments.pop()}${OBJECT_FILE_SUFFIX}`;
+		return join(this.directory, ...segments, fileName);
+	}
+
+	// Runs writes to the same key one at a time
+	private async exclusive<R>(key: string, fn: () => Promise<R>): Promise<R> {
+		const previous = this.pending.get(key) ?? Promise.resolve();
+		const next = previous.then(fn, fn);
+		const settled = next.catch(() => undefined);
+		this.pending.set(key, settled);
+
+		try {
+			return await next;
+		} finally {
+			if (this.pending.get(key) === settled) {
+				this.pending.delete(key);
+			}
+		}
+	}
+
+	private async readFile(
+		key: string,
+	): Promise<{ header: FileHeader; body: Uint8Array } | null> {
+		let contents: Buffer;
+		try {
+			contents = await readFile(this.getPath(key));
+		} catch (error) {
+			if (isErrorCode(error, "ENOENT")) {
+				return null;
+			}
+			throw error;
+		}
+
+		const newline = contents.indexOf(10);
+		return {
+			header: JSON.parse(contents.subarray(0, newline).toString("utf8")),
+			body: new Uint8Array(contents.subarray(newline + 1)),
+		};
+	}
+
+	// Reads up to the end of the header line, leaving the body on disk
+	private async readHeader(key: string): Promise<FileHeader | null> {
+		let handle: FileHandle;
+		try {
+			handle = await open(this.getPath(key), "r");
+		} catch (error) {
+			if (isErrorCode(error, "ENOENT")) {
+				return null;
+			}
+			throw error;
+		}
+
+		try {
+			let contents = Buffer.alloc(0);
+			let newline = -1;
+			while (newline === -1) {
+				const chunk = Buffer.alloc(HEADER_CHUNK_SIZE);
+				const { bytesRead } = await handle.read(
+					chunk,
+					0,
+					HEADER_CHUNK_SIZE,
+					contents.length,
+				);
+				if (bytesRead === 0) {
+					break;
+				}
+				contents = Buffer.concat([contents, chunk.subarray(0, bytesRead)]);
+				newline = contents.indexOf(10);
+			}
+
+			return JSON.parse(
+				contents
+					.subarray(0, newline === -1 ? contents.length : newline)
+					.toString("utf8"),
+			);
+		} finally {
+			await handle.close();
+		}
+	}
+
+	async get(
+		key: string,
+		options: StorageGetOptions = {},
+	): Promise<StorageObject | null> {
+		const file = await this.readFile(key);
+		if (file === null) {
+			return null;
+		}
+		if (file.header.etag === options.ifNoneMatch) {
+			return notModified(file.header.etag);
+		}
+
+		return {
+			body: file.body,
+			etag: file.header.etag,
+			contentType: file.header.contentType,
+			contentEncoding: file.header.contentEncoding,
+			lastModified: new Date(file.header.lastModified),
+			metadata: file.header.metadata,
+		};
+	}
+
+	async head(key: string): Promise<StorageObjectHead | null> {
+		const header = await this.readHeader(key);
+		if (header === null) {
+			return null;
+		}
+
+		return {
+			size: header.size,
+			etag: header.etag,
+			contentType: header.contentType,
+			contentEncoding: header.contentEncoding,
+			lastModified: new Date(header.lastModified),
+			metadata: header.metadata,
+		};
+	}
+
+	async put(
+		key: string,
+		body: Uint8Array,
+		options: StoragePutOptions = {},
+	): Promise<{ etag?: string; versionId?: string }> {
+		return await this.exclusive(key, async () => {
+			if (options.ifMatch !== undefined) {
+				const current = await this.readFile(key);
+				if (current?.header.etag !== options.ifMatch) {
+					throw new ConflictError(key);
+				}
+			}
+
+			const path = this.getPath(key);
+			const header: FileHeader = {
+				etag: computeETag(body),
+				contentType: options.contentType,
+				contentEncoding: options.contentEncoding,
+				lastModified: new Date().toISOString(),
+				size: body.length,
+				metadata: lowercaseKeys(options.metadata),
+			};
+
+			// Written to a temporary file first so readers never see a partial
+			// object
+			const tempPath = `${path}.${randomUUID()}.tmp`;
+			await mkdir(dirname(path), { recursive: true });
+			await writeFile(
+				tempPath,
+				Buffer.concat([Buffer.from(`${JSON.stringify(header)}\n`), body]),
+			);
+
+			if (options.ifNoneMatch === "*") {
+				await this.linkNew(key, tempPath, path);
+			} else {
+				await rename(tempPath, path);
+			}
+
+			return { etag: header.etag };
+		});
+	}
+
+	// Linking fails when the target exists, which makes creation atomic
+	private async linkNew(
+		key: string,
+		tempPath: string,
+		path: string,
+	): Promise<void> {
+		try {
+			await link(tempPath, path);
+		} catch (error) {
+			if (isErrorCode(error, "EEXIST")) {
+				throw new ConflictError(key);
+			}
+			throw error;
+		} finally {
+			await unlink(tempPath);
+		}
+	}
+
+	async delete(key: string, options: StorageDeleteOptions = {}): Promise<void> {
+		await this.exclusive(key, async () => {
+			if (options.ifMatch !== undefined) {
+				const current = await this.readHeader(key);
+				if (current !== null && current.etag !== options.ifMatch) {
+					throw new ConflictError(key);
+				}
+			}
+
+			try {
+				await unlink(this.getPath(key));
+			} catch (error) {
+				if (!isErrorCode(error, "ENOENT")) {
+					throw error;
+				}
+			}
+		});
+	}
+
+	// Collects every key stored under a directory
+	private async collectKeys(
+		directory: string,
+		keyPrefix: string,
+	): Promise<string[]> {
+		let entries: Dirent[];
+		try {
+			entries = await readdir(directory, { withFileTypes: true });
+		} catch (error) {
+			if (isErrorCode(error, "ENOENT")) {
+				return [];
+			}
+			throw error;
+		}
+
+		const keys: string[] = [];
+		for (const entry of entries) {
+			if (entry.isDirectory()) {
+				keys.push(
+					...(await this.collectKeys(
+						join(directory, entry.name),
+						`${keyPrefix}${decodeSegment(entry.name)}/`,
+					)),
+				);
+			} else if (entry.name.endsWith(OBJECT_FILE_SUFFIX)) {
+				keys.push(`${keyPrefix}${decodeSegment(entry.name.slice(0, -1))}`);
+			}
+		}
+		return keys;
+	}
+
+	async list(
+		prefix: string | undefined,
+		options: StorageListOptions = {},
+	): Promise<StorageListPage> {
+		// Only the directories the prefix can match are walked
+		const directories = (prefix ?? "").split("/").slice(0, -1);
+		const keys = await this.collectKeys(
+			join(this.directory, ...directories.map(encodeSegment)),
+			directories.map((segment) => `${segment}/`).join(""),
+		);
+		const page = pageKeys(keys, prefix, options);
+
+		const items: StorageObjectInfo[] = [];
+		for (const key of page.keys) {
+			const header = await this.readHeader(key);
+			if (header !== null) {
+				items.push({
+					key,
+					lastModified: new Date(header.lastModified),
+					size: header.size,
+					etag: header.etag,
+				});
+			}
+		}
+
+		return { items, cursor: page.cursor };
+	}
+}
@@ -0,0 +1,54 @@
+import { randomBytes } from "node:crypto";
+
+// Crockford's base32, whose characters sort in the order of their values
+const ENCODING = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const TIME_LENGTH = 10;
+const RANDOM_LENGTH = 16;
+
+let lastTime = -1;
+let lastRandom: number[] = [];
+
+const encodeTime = (time: number): string => {
+	let remaining = time;
+	let result = "";
+	for (let index = 0; index < TIME_LENGTH; index++) {
+		result = ENCODING[remaining % 32] + result;
+		remaining = Math.floor(remaining / 32);
+	}
+	return result;
+};
+
+const increment = (digits: number[]): number[] => {
+	const next = digits.slice();
+	for (let index = next.length - 1; index >= 0; index--) {
+		if (next[index] < 31) {
+			next[index]++;
+			return next;
+		}
+		next[index] = 0;
+	}
+	return next;
+};
+
+/**
+ * Create a ULID, a 26 character id that sorts by its timestamp
+ * Ids created for the same millisecond in this process increment the
+ * random part, so they still sort in the order they were created
+ * @param time - Timestamp in ms (default: now)
+ */
+export const ulid = (time = Date.now()): string => {
+	if (time === lastTime) {
+		lastRandom = increment(lastRandom);
+	} else {
+		lastTime = time;
+		lastRandom = Array.from(randomBytes(RANDOM_LENGTH), (byte) => byte % 32);
+	}
+	return encodeTime(time) + lastRandom.map((digit) => ENCODING[digit]).join("");
+};
+
+// The timestamp in ms a ULID was created for
+export const decodeTime = (id: string): number =>
+	id
+		.slice(0, TIME_LENGTH)
+		.split("")
+		.reduce((time, character) => time * 32 + ENCODING.indexOf(character), 0);
@@ -0,0 +1,260 @@
+export type WatchEventType = "create" | "update" | "delete";
+
+export type WatchEvent<V, Parts> = {
+	type: WatchEventType;
+	// Key relative to the bucket prefix
+	key: string;
+	// The partitions of a partitioned key, undefined for plain keys
+	partitions: Parts;
+	// Null for creates
+	oldValue: V | null;
+	// Null for deletes
+	newValue: V | null;
+};
+
+export type WatchHandler<V, Parts> = (
+	event: WatchEvent<V, Parts>,
+) => void | Promise<void>;
+
+// Tells a watcher that an object may have changed, by its full S3 key
+export type ChangeNotification = { key: string };
+
+/**
+ * Delivers change notifications, such as S3 event notifications read from
+ * an SQS queue
+ * Returns a function that stops the delivery.
+ */
+export interface ChangeSource {
+	subscribe(listener: (notification: ChangeNotification) => void): () => void;
+}
+
+export type WatchOptions = {
+	// Poll interval in ms, or false to rely on `source` alone (default: 1000)
+	interval?: number | false;
+	// Changes are checked as soon as the source reports them
+	source?: ChangeSource;
+	// Called when a poll, a read or the handler fails; watching continues
+	onError?: (error: unknown) => void;
+};
+
+// How a watcher finds and reads the objects it watches
+export interface WatchStore<V, Parts> {
+	// ETags of every watched object, by key
+	list(): Promise<Map<string, string>>;
+	// The watched key an S3 key refers to, if any
+	resolve(s3Key: string): string | undefined;
+	// Resolves to null when the object does not exist
+	head(key: string): Promise<string | null>;
+	read(
+		key: string,
+	): Promise<{ value: V; etag?: string; partitions: Parts } | null>;
+}
+
+// S3 encodes spaces in notification keys as "+"
+const ENCODED_SPACE = /\+/g;
+
+type S3EventRecord = { s3?: { object?: { key?: string } } };
+
+/**
+ * Read the keys from an S3 event notification, as delivered in the body of
+ * an SQS message, directly or through SNS
+ * S3 URL-encodes keys in notifications; they are decoded here.
+ */
+export const parseS3EventNotification = (
+	body: string,
+): ChangeNotification[] => {
+	const message = JSON.parse(body) as {
+		Type?: string;
+		Message?: string;
+		Records?: S3EventRecord[];
+	};
+	if (message.Type === "Notification" && message.Message !== undefined) {
+		return parseS3EventNotification(message.Message);
+	}
+
+	return (message.Records ?? []).flatMap((record) => {
+		const key = record.s3?.object?.key;
+		return key === undefined
+			? []
+			: [{ key: decodeURIComponent(key.replace(ENCODED_SPACE, " ")) }];
+	});
+};
+
+// A change source notified by hand, for tests and local development
+export class LocalChangeSource implements ChangeSource {
+	private readonly listeners = new Set<
+		(notification: ChangeNotification) => void
+	>();
+
+	subscribe(listener: (notification: ChangeNotification) => void): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	notify(key: string): void {
+		for (const listener of Array.from(this.listeners)) {
+			listener({ key });
+		}
+	}
+}
+
+type KnownObject<V, Parts> = {
+	etag: string;
+	value: V | null;
+	partitions?: Parts;
+};
+
+/**
+ * Reports creates, updates and deletes of watched objects to a handler
+ * Changes are found by comparing ETags, on every poll and whenever the
+ * change source reports a key. The last value of each object is kept, so
+ * handlers receive the old value as well as the new one.
+ */
+export class Watcher<V, Parts> {
+	private readonly store: WatchStore<V, Parts>;
+	private readonly handler: WatchHandler<V, Parts>;
+	private readonly options: WatchOptions;
+	private readonly known = new Map<string, KnownObject<V, Parts>>();
+	private timer?: ReturnType<typeof setTimeout>;
+	private unsubscribe?: () => void;
+	private closed = false;
+	// Checks run one at a time, so events for a key arrive in order
+	private queue: Promise<void> = Promise.resolve();
+
+	constructor(
+		store: WatchStore<V, Parts>,
+		handler: WatchHandler<V, Parts>,
+		options: WatchOptions = {},
+	) {
+		this.store = store;
+		this.handler = handler;
+		this.options = options;
+	}
+
+	// Reads the current values without reporting them, then starts watching
+	async start(): Promise<void> {
+		await this.sync(false);
+		this.schedule();
+		this.unsubscribe = this.options.source?.subscribe(({ key: s3Key }) => {
+			const key = this.store.resolve(s3Key);
+			if (key !== undefined) {
+				this.enqueue(async () =>
+					this.apply(key, await this.store.head(key), true),
+				);
+			}
+		});
+	}
+
+	// Stops watching once the checks already queued finish
+	async close(): Promise<void> {
+		this.closed = true;
+		if (this.timer !== undefined) {
+			clearTimeout(this.timer);
+			this.timer = undefined;
+		}
+		this.unsubscribe?.();
+		await this.queue;
+	}
+
+	// Checks queued before close still run; later ones are dropped
+	private enqueue(check: () => Promise<void>): Promise<void> {
+		if (this.closed) {
+			return this.queue;
+		}
+		this.queue = this.queue
+			.then(check)
+			.catch((error) => this.options.onError?.(error));
+		return this.queue;
+	}
+
+	private schedule(): void {
+		const interval = this.options.interval ?? 1000;
+		if (interval === false || this.closed) {
+			return;
+		}
+		this.timer = setTimeout(() => {
+			this.timer = undefined;
+			this.enqueue(() => this.sync(true)).then(() => this.schedule());
+		}, interval);
+	}
+
+	private async sync(emit: boolean): Promise<void> {
+		const current = await this.store.list();
+		for (const [key, etag] of Array.from(current)) {
+			await this.apply(key, etag, emit);
+		}
+		for (const key of Array.from(this.known.keys())) {
+			if (!current.has(key)) {
+				await this.apply(key, null, emit);
+			}
+		}
+	}
+
+	// Compares an object's ETag with the last one seen, reading the new
+	// value when it changed
+	private async apply(
+		key: string,
+		etag: string | null,
+		emit: boolean,
+	): Promise<void> {
+		const previous = this.known.get(key);
+		if ((previous?.etag ?? null) === etag) {
+			return;
+		}
+
+		let entry: KnownObject<V, Parts> | null = null;
+		if (etag !== null) {
+			try {
+				entry = await this.read(key, etag);
+			} catch (error) {
+				// Reported once, and read again when the ETag changes
+				this.known.set(key, { ...previous, etag, value: null });
+				this.options.onError?.(error);
+				return;
+			}
+		}
+
+		if (entry === null) {
+			this.known.delete(key);
+		} else {
+			this.known.set(key, entry);
+		}
+		if (emit) {
+			await this.report(key, previous, entry);
+		}
+	}
+
+	private async report(
+		key: string,
+		previous: KnownObject<V, Parts> | undefined,
+		next: KnownObject<V, Parts> | null,
+	): Promise<void> {
+		if (previous === undefined && next === null) {
+			return;
+		}
+
+		await this.handler({
+			type: next === null ? "delete" : previous ? "update" : "create",
+			key,
+			partitions: (next?.partitions ?? previous?.partitions) as Parts,
+			oldValue: previous?.value ?? null,
+			newValue: next?.value ?? null,
+		});
+	}
+
+	private async read(
+		key: string,
+		etag: string,
+	): Promise<KnownObject<V, Parts> | null> {
+		const entry = await this.store.read(key);
+		return entry === null
+			? null
+			: {
+					etag: entry.etag ?? etag,
+					value: entry.value,
+					partitions: entry.partitions,
+				};
+	}
+}